@@ -0,0 +1,169 @@
+/**
+ * Cancellation
+ *
+ * Helpers for threading AbortSignals through renders and streams.
+ * Works with any AbortSignal-compatible object (browser, Node, polyfills).
+ */
+
+import type { AbortSignalLike } from "./types.js";
+
+// Portable AbortController access (browser, Node >= 15)
+interface AbortControllerLike {
+  readonly signal: AbortSignalLike;
+  abort(reason?: unknown): void;
+}
+type GlobalWithAbort = { AbortController: new () => AbortControllerLike };
+const AbortControllerImpl = (globalThis as unknown as GlobalWithAbort).AbortController;
+
+// =============================================================================
+// Signal Helpers
+// =============================================================================
+
+/**
+ * Get the error a signal was aborted with.
+ */
+export function abortReason(signal: AbortSignalLike): unknown {
+  return signal.reason ?? new Error("The operation was aborted");
+}
+
+/**
+ * Throw the signal's abort reason if it has been aborted.
+ */
+export function throwIfAborted(signal: AbortSignalLike | undefined): void {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+}
+
+/**
+ * Run a callback once when a signal aborts (immediately if already aborted).
+ * Returns a function that removes the listener.
+ */
+export function onAbort(signal: AbortSignalLike, callback: () => void): () => void {
+  if (signal.aborted) {
+    callback();
+    return () => {};
+  }
+
+  signal.addEventListener("abort", callback, { once: true });
+  return () => signal.removeEventListener("abort", callback);
+}
+
+/**
+ * Race a promise against a signal. Rejects with the abort reason on abort.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignalLike | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = onAbort(signal, () => reject(abortReason(signal)));
+    promise.then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error: unknown) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Create an abort controller that also aborts when a parent signal aborts.
+ * Call `dispose` once done to detach from the parent.
+ */
+export function createLinkedController(parent: AbortSignalLike | undefined): {
+  controller: AbortControllerLike;
+  dispose: () => void;
+} {
+  const controller = new AbortControllerImpl();
+  const dispose = parent
+    ? onAbort(parent, () => controller.abort(abortReason(parent)))
+    : () => {};
+  return { controller, dispose };
+}
+
+// =============================================================================
+// Abortable Iteration
+// =============================================================================
+
+const ABORTED = Symbol("aborted");
+
+/**
+ * Iterate a source until it completes or the signal aborts.
+ *
+ * On abort the iteration ends quietly and the upstream iterator is
+ * released via `return()`, even if a `next()` call is still pending.
+ */
+export async function* abortable<T>(
+  source: AsyncIterable<T>,
+  signal: AbortSignalLike | undefined
+): AsyncGenerator<T, void, undefined> {
+  if (!signal) {
+    yield* source;
+    return;
+  }
+
+  if (signal.aborted) {
+    return;
+  }
+
+  const iterator = source[Symbol.asyncIterator]();
+  let finished = false;
+
+  try {
+    while (!signal.aborted) {
+      let result: IteratorResult<T> | typeof ABORTED;
+      try {
+        result = await nextOrAbort(iterator, signal);
+      } catch (error) {
+        // The upstream threw - it is already closed
+        finished = true;
+        throw error;
+      }
+      if (result === ABORTED) {
+        return;
+      }
+      if (result.done) {
+        finished = true;
+        return;
+      }
+      // An error thrown in by the consumer still closes the upstream below
+      yield result.value;
+    }
+  } finally {
+    if (!finished) {
+      // Don't await: a pending next() would delay return() until it settles
+      void Promise.resolve(iterator.return?.()).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Read the next value, or ABORTED if the signal aborts first.
+ *
+ * The abort listener lives only as long as this step, so a long stream
+ * doesn't accumulate reactions on a promise that settles only on abort.
+ */
+function nextOrAbort<T>(
+  iterator: AsyncIterator<T>,
+  signal: AbortSignalLike
+): Promise<IteratorResult<T> | typeof ABORTED> {
+  return new Promise((resolve, reject) => {
+    const cleanup = onAbort(signal, () => resolve(ABORTED));
+    iterator.next().then(
+      (result) => {
+        cleanup();
+        resolve(result);
+      },
+      (error: unknown) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
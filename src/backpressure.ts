@@ -0,0 +1,166 @@
+/**
+ * Backpressure
+ *
+ * Decouples a component stream from its consumer. Frames are read from the
+ * source as they arrive and buffered until the consumer pulls them; when the
+ * consumer falls behind, the strategy decides what happens to new frames.
+ */
+
+import type { BackpressureStrategy } from "./types.js";
+
+// =============================================================================
+// Buffer Overflow Error
+// =============================================================================
+
+/**
+ * Thrown by the "queue" strategy when the consumer falls a full buffer behind.
+ */
+export class BufferOverflowError extends Error {
+  readonly bufferSize: number;
+
+  constructor(bufferSize: number) {
+    super(`Stream buffer overflow: consumer is more than ${bufferSize} frames behind`);
+    this.name = "BufferOverflowError";
+    this.bufferSize = bufferSize;
+  }
+}
+
+// =============================================================================
+// Backpressure Operator
+// =============================================================================
+
+/**
+ * Options for withBackpressure.
+ */
+export interface BackpressureOptions {
+  /** What to do when the consumer falls behind (default: "latest") */
+  strategy?: BackpressureStrategy;
+  /** Frames held for the consumer; ignored by "latest" (default: 16) */
+  bufferSize?: number;
+  /** Called with the number of frames dropped each time frames are dropped */
+  onDrop?: (count: number) => void;
+}
+
+/**
+ * Buffer a stream between producer and consumer.
+ *
+ * | Strategy | When the buffer is full |
+ * |----------|-------------------------|
+ * | latest | Replace the pending frame (buffer of 1) |
+ * | queue | Fail with BufferOverflowError |
+ * | drop-oldest | Drop the oldest buffered frame |
+ * | drop-newest | Drop the incoming frame |
+ * | block | Stop reading the source until the consumer pulls |
+ *
+ * The source is read as fast as it produces, except with "block". Returning
+ * early closes the source.
+ *
+ * @param source - Stream to buffer
+ * @param options - Strategy, buffer size and drop callback
+ * @returns Buffered stream
+ *
+ * @example
+ * ```typescript
+ * let dropped = 0;
+ * for await (const frame of withBackpressure(ticks, {
+ *   strategy: "drop-oldest",
+ *   bufferSize: 8,
+ *   onDrop: (count) => (dropped += count),
+ * })) {
+ *   await slowRender(frame);
+ * }
+ * ```
+ */
+export async function* withBackpressure<T>(
+  source: AsyncIterable<T>,
+  options: BackpressureOptions = {}
+): AsyncIterable<T> {
+  const { strategy = "latest", bufferSize = 16, onDrop } = options;
+  const capacity = strategy === "latest" ? 1 : Math.max(1, Math.floor(bufferSize));
+
+  const iterator = source[Symbol.asyncIterator]();
+  const buffer: T[] = [];
+  let finished = false;
+  let stopped = false;
+  let failure: { error: unknown } | undefined;
+  let wakeConsumer: (() => void) | undefined;
+  let wakeProducer: (() => void) | undefined;
+
+  const notifyConsumer = (): void => {
+    const wake = wakeConsumer;
+    wakeConsumer = undefined;
+    wake?.();
+  };
+  const notifyProducer = (): void => {
+    const wake = wakeProducer;
+    wakeProducer = undefined;
+    wake?.();
+  };
+
+  // Producer: read the source into the buffer
+  void (async () => {
+    try {
+      while (!stopped) {
+        if (strategy === "block") {
+          while (buffer.length >= capacity && !stopped) {
+            await new Promise<void>((resolve) => (wakeProducer = resolve));
+          }
+          if (stopped) {
+            break;
+          }
+        }
+
+        const result = await iterator.next();
+        if (result.done || stopped) {
+          break;
+        }
+
+        if (buffer.length < capacity) {
+          buffer.push(result.value);
+        } else if (strategy === "latest" || strategy === "drop-oldest") {
+          buffer.shift();
+          buffer.push(result.value);
+          onDrop?.(1);
+        } else if (strategy === "drop-newest") {
+          onDrop?.(1);
+        } else {
+          // The source is still open; close it before failing the stream
+          void Promise.resolve(iterator.return?.()).catch(() => {});
+          throw new BufferOverflowError(capacity);
+        }
+        notifyConsumer();
+      }
+    } catch (error) {
+      failure = { error };
+    } finally {
+      finished = true;
+      notifyConsumer();
+    }
+  })();
+
+  // Consumer: deliver buffered frames as they are pulled
+  try {
+    while (true) {
+      if (buffer.length > 0) {
+        const frame = buffer.shift()!;
+        notifyProducer();
+        yield frame;
+        continue;
+      }
+      if (failure) {
+        throw failure.error;
+      }
+      if (finished) {
+        return;
+      }
+      await new Promise<void>((resolve) => (wakeConsumer = resolve));
+    }
+  } finally {
+    if (!finished) {
+      stopped = true;
+      notifyProducer();
+      // Close the source; a pending next() settles first
+      void Promise.resolve(iterator.return?.()).catch(() => {});
+    }
+  }
+}
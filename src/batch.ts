@@ -0,0 +1,228 @@
+/**
+ * Batching
+ *
+ * Coalesces component procedure calls issued in the same tick into a single
+ * batch procedure call, then fans the results back out to each caller.
+ * The batch handler is the server half: it runs each item of a batch.
+ */
+
+import type { ProcedureCaller } from "./registry.js";
+import type { BatchOptions, CallOptions } from "./types.js";
+import { onAbort, raceAbort } from "./abort.js";
+import { getErrorMessage } from "./boundary.js";
+import { systemScheduler } from "./scheduler.js";
+
+// =============================================================================
+// Batch Wire Format
+// =============================================================================
+
+/**
+ * A single call inside a batch request.
+ */
+export interface BatchItem {
+  /** Procedure path of the component */
+  path: string[];
+  /** Input for the component procedure */
+  input: unknown;
+}
+
+/**
+ * Input of the batch procedure.
+ */
+export interface BatchRequest {
+  items: BatchItem[];
+}
+
+/**
+ * Per-item result of the batch procedure, in request order.
+ * A failed item does not fail the rest of the batch.
+ */
+export type BatchItemResult<TResult = unknown> =
+  | { ok: true; output: TResult }
+  | { ok: false; error: { message: string } };
+
+// =============================================================================
+// Batching Caller
+// =============================================================================
+
+interface PendingCall {
+  item: BatchItem;
+  options: CallOptions;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Wrap a procedure caller so that calls issued in the same tick are sent
+ * as one call to the batch procedure (default: `components.__batch__`).
+ *
+ * A window with a single call is sent directly, without the batch wrapper.
+ * Aborting a call removes it from a pending batch; once sent inside a batch,
+ * only the caller's promise is rejected.
+ *
+ * @param call - Client's procedure call function
+ * @param options - Batch options
+ * @returns ProcedureCaller that batches calls
+ *
+ * @example
+ * ```typescript
+ * const batched = createBatchingCaller(call, { maxBatchSize: 50 });
+ * const registry = createClientRegistry(batched, { namespace: "ui" });
+ * ```
+ */
+export function createBatchingCaller(
+  call: ProcedureCaller,
+  options: BatchOptions = {}
+): ProcedureCaller {
+  const {
+    path: batchPath = ["components", "__batch__"],
+    maxBatchSize = 100,
+    windowMs = 0,
+    scheduler = systemScheduler,
+  } = options;
+
+  let queue: PendingCall[] = [];
+  let scheduled = false;
+
+  function schedule(): void {
+    if (scheduled) {
+      return;
+    }
+    scheduled = true;
+
+    // A zero window still waits for the current tick, so that calls still
+    // resolving their procedure path in microtasks join the batch
+    scheduler.setTimeout(flush, windowMs);
+  }
+
+  function flush(): void {
+    scheduled = false;
+    // Calls aborted while queued were already rejected
+    const pending = queue.filter((call) => !call.options.signal?.aborted);
+    queue = [];
+
+    for (let i = 0; i < pending.length; i += maxBatchSize) {
+      void send(pending.slice(i, i + maxBatchSize));
+    }
+  }
+
+  async function send(batch: PendingCall[]): Promise<void> {
+    if (batch.length === 1) {
+      const [only] = batch as [PendingCall];
+      try {
+        only.resolve(await call(only.item.path, only.item.input, only.options));
+      } catch (error) {
+        only.reject(error);
+      }
+      return;
+    }
+
+    try {
+      const request: BatchRequest = { items: batch.map((pending) => pending.item) };
+      const results = await call<unknown>(batchPath, request);
+
+      // A server without the batch procedure may answer with anything
+      if (!Array.isArray(results) || results.length !== batch.length) {
+        throw new Error(
+          `Invalid batch response from ${batchPath.join(".")}: expected ${batch.length} results`
+        );
+      }
+
+      batch.forEach((pending, index) => {
+        const result = results[index] as BatchItemResult;
+        if (result.ok) {
+          pending.resolve(result.output);
+        } else {
+          pending.reject(new Error(result.error.message));
+        }
+      });
+    } catch (error) {
+      // The batch call failed or its response is unusable - every item
+      // still waiting fails with it (settled items are unaffected)
+      for (const pending of batch) {
+        pending.reject(error);
+      }
+    }
+  }
+
+  return <TResult>(path: string[], input: unknown, options: CallOptions = {}): Promise<TResult> => {
+    const { signal } = options;
+    let cleanup = () => {};
+
+    const queued = new Promise<TResult>((resolve, reject) => {
+      const pending: PendingCall = {
+        item: { path, input },
+        options,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      };
+      queue.push(pending);
+      schedule();
+
+      if (signal) {
+        // Drop the call from the queue if it is aborted before the flush
+        cleanup = onAbort(signal, () => {
+          queue = queue.filter((call) => call !== pending);
+        });
+      }
+    });
+
+    void queued.then(cleanup, cleanup);
+    return raceAbort(queued, signal);
+  };
+}
+
+// =============================================================================
+// Batch Handler
+// =============================================================================
+
+/**
+ * Create the handler of the batch procedure.
+ *
+ * Items run concurrently through `call`, and every item settles on its
+ * own: a failed item becomes an `{ ok: false }` result without failing the
+ * batch. Items may only call procedures next to the batch procedure (by
+ * default `components.*`), and not the batch procedure itself.
+ *
+ * @param call - Procedure call function to run items with
+ * @param options - Batch procedure path and maximum batch size
+ * @returns Handler taking a batch request and returning one result per item
+ * @throws Error from the handler when the batch exceeds maxBatchSize
+ *
+ * @example
+ * ```typescript
+ * createProcedure()
+ *   .path(["components", "__batch__"])
+ *   .handler(createBatchHandler(call))
+ *   .build();
+ * ```
+ */
+export function createBatchHandler(
+  call: ProcedureCaller,
+  options: Pick<BatchOptions, "path" | "maxBatchSize"> = {}
+): (request: BatchRequest) => Promise<BatchItemResult[]> {
+  const { path: batchPath = ["components", "__batch__"], maxBatchSize = 100 } = options;
+  const scope = batchPath.slice(0, -1);
+
+  const runItem = async ({ path, input }: BatchItem): Promise<BatchItemResult> => {
+    const inScope =
+      path.length > scope.length && scope.every((segment, index) => path[index] === segment);
+    if (!inScope || path.join(".") === batchPath.join(".")) {
+      return { ok: false, error: { message: `Cannot batch a call to ${path.join(".")}` } };
+    }
+    try {
+      return { ok: true, output: await call(path, input) };
+    } catch (error) {
+      return { ok: false, error: { message: getErrorMessage(error) } };
+    }
+  };
+
+  return async (request) => {
+    if (request.items.length > maxBatchSize) {
+      throw new Error(
+        `Batch of ${request.items.length} calls exceeds the maximum of ${maxBatchSize}`
+      );
+    }
+    return Promise.all(request.items.map(runItem));
+  };
+}
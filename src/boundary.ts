@@ -0,0 +1,77 @@
+/**
+ * Error Boundaries
+ *
+ * Error descriptors that replace failed component renders, and the
+ * boundary matching used by createRenderContext and renderTree.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type { ErrorBoundary, RenderErrorInfo } from "./types.js";
+import { isPathWithin } from "./path.js";
+
+// =============================================================================
+// Error Descriptors
+// =============================================================================
+
+/**
+ * Descriptor type of a failed render.
+ */
+export const ERROR_TYPE = "__error__";
+
+/**
+ * Props of an error descriptor.
+ */
+export interface ErrorOutputProps {
+  /** Error message */
+  message: string;
+  /** Path of the failed render */
+  path: string;
+  /** Component type of the failed render, if it could be determined */
+  type: string | null;
+  [key: string]: unknown;
+}
+
+/**
+ * Create an error descriptor for a failed render.
+ */
+export function errorOutput(props: ErrorOutputProps): ComponentOutput {
+  return { type: ERROR_TYPE, props };
+}
+
+/**
+ * Check if a descriptor is an error descriptor.
+ */
+export function isErrorOutput(descriptor: ComponentOutput): boolean {
+  return descriptor.type === ERROR_TYPE;
+}
+
+/**
+ * Get the message of an unknown thrown value.
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// =============================================================================
+// Boundary Matching
+// =============================================================================
+
+/**
+ * Find the first boundary that catches a failed render.
+ * A boundary with no `types` catches every type; one with no `path`
+ * catches every subtree.
+ */
+export function findBoundary(
+  boundaries: readonly ErrorBoundary[],
+  info: RenderErrorInfo
+): ErrorBoundary | undefined {
+  return boundaries.find((boundary) => {
+    if (boundary.types && (info.type === null || !boundary.types.includes(info.type))) {
+      return false;
+    }
+    if (boundary.path !== undefined && !isPathWithin(info.path, boundary.path)) {
+      return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Render Cache
+ *
+ * Memoizes component outputs keyed on component type, the procedure serving
+ * it, a stable serialization of the render data, and the available size. Supports LRU and TTL limits,
+ * per-type opt-out, and invalidation by type or path prefix.
+ */
+
+import type { ComponentOutput, Size } from "@mark1russell7/client/components";
+import type { RenderCache, RenderCacheOptions } from "./types.js";
+import { isPathWithin } from "./path.js";
+
+// =============================================================================
+// Render Cache Implementation
+// =============================================================================
+
+interface CacheEntry {
+  type: string;
+  output: ComponentOutput;
+  paths: Set<string>;
+  expiresAt: number;
+}
+
+/**
+ * Create a render cache for use with createClientRegistry.
+ *
+ * Cached outputs are shared between callers and must not be mutated.
+ *
+ * @param options - Cache options
+ * @returns RenderCache instance
+ *
+ * @example
+ * ```typescript
+ * const cache = createRenderCache({ maxEntries: 1000, ttlMs: 30_000, exclude: ["clock"] });
+ * const registry = createClientRegistry(call, { namespace: "ui", cache });
+ *
+ * // After a user changes, drop everything rendered for them
+ * cache.invalidateType("user-card");
+ * cache.invalidatePath("root.children[2]");
+ * ```
+ */
+export function createRenderCache(options: RenderCacheOptions = {}): RenderCache {
+  const { maxEntries = 500, ttlMs = Infinity, exclude = [] } = options;
+
+  const isExcluded =
+    typeof exclude === "function" ? exclude : (type: string) => exclude.includes(type);
+
+  // Map iteration order doubles as LRU order (oldest first)
+  const entries = new Map<string, CacheEntry>();
+
+  // The full serialization, not a hash: a collision would serve another render's output
+  function buildKey(type: string, data: unknown, size: Size, scope = ""): string {
+    return `${type}|${scope}|${size.width}x${size.height}|${stableStringify(data)}`;
+  }
+
+  function removeWhere(predicate: (entry: CacheEntry) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of entries) {
+      if (predicate(entry)) {
+        entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  return {
+    shouldCache(type: string): boolean {
+      return maxEntries > 0 && !isExcluded(type);
+    },
+
+    get(type: string, data: unknown, size: Size, scope?: string): ComponentOutput | undefined {
+      const key = buildKey(type, data, size, scope);
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+
+      // Expired entries stay until evicted so they can be served stale
+      if (entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+
+      // Mark as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.output;
+    },
+
+    getStale(type: string, data: unknown, size: Size, scope?: string): ComponentOutput | undefined {
+      return entries.get(buildKey(type, data, size, scope))?.output;
+    },
+
+    set(
+      type: string,
+      data: unknown,
+      size: Size,
+      path: string,
+      output: ComponentOutput,
+      scope?: string
+    ): void {
+      if (!this.shouldCache(type)) {
+        return;
+      }
+
+      const key = buildKey(type, data, size, scope);
+      const existing = entries.get(key);
+      const paths = existing?.paths ?? new Set<string>();
+      paths.add(path);
+
+      entries.delete(key);
+      entries.set(key, { type, output, paths, expiresAt: Date.now() + ttlMs });
+
+      // Evict least recently used entries
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+
+    invalidateType(type: string): number {
+      // A bare type also covers its versions ("user-card" → "user-card@2")
+      return removeWhere((entry) => entry.type === type || entry.type.startsWith(`${type}@`));
+    },
+
+    invalidatePath(prefix: string): number {
+      return removeWhere((entry) =>
+        Array.from(entry.paths).some((path) => isPathWithin(path, prefix))
+      );
+    },
+
+    clear(): void {
+      entries.clear();
+    },
+
+    get size(): number {
+      return entries.size;
+    },
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Serialize a value to JSON with object keys sorted, so that structurally
+ * equal values always produce the same string. Circular references are
+ * replaced with a marker instead of throwing.
+ */
+export function stableStringify(value: unknown): string {
+  const seen = new Set<object>();
+
+  function visit(current: unknown): string {
+    if (current === null || typeof current !== "object") {
+      if (current === undefined || typeof current === "function" || typeof current === "symbol") {
+        return "null";
+      }
+      if (typeof current === "bigint") {
+        return JSON.stringify(current.toString());
+      }
+      return JSON.stringify(current);
+    }
+
+    const withJson = current as { toJSON?: () => unknown };
+    if (typeof withJson.toJSON === "function") {
+      return visit(withJson.toJSON());
+    }
+
+    if (seen.has(current)) {
+      return '"[Circular]"';
+    }
+    seen.add(current);
+
+    let result: string;
+    if (Array.isArray(current)) {
+      result = `[${current.map(visit).join(",")}]`;
+    } else {
+      const obj = current as Record<string, unknown>;
+      const parts = Object.keys(obj)
+        .filter((key) => obj[key] !== undefined)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${visit(obj[key])}`);
+      result = `{${parts.join(",")}}`;
+    }
+
+    seen.delete(current);
+    return result;
+  }
+
+  return visit(value);
+}
+
+/**
+ * Compute a stable 53-bit hash of a value's structure (cyrb53).
+ */
+export function stableHash(value: unknown): string {
+  const text = stableStringify(value);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
@@ -0,0 +1,146 @@
+/**
+ * Composite Registry
+ *
+ * Combines in-process renderers with procedure-backed registries, so purely
+ * client-side components (spinners, layout primitives) can be rendered
+ * without defining a procedure for each one.
+ */
+
+import type { ComponentRenderer, CompositeRegistryOptions, Registry } from "./types.js";
+
+// =============================================================================
+// Local Registry
+// =============================================================================
+
+/**
+ * Create a registry of in-process renderers.
+ *
+ * @param renderers - Initial renderers by component type
+ * @returns Registry whose register() adds renderers
+ *
+ * @example
+ * ```typescript
+ * const local = createLocalRegistry({
+ *   spinner: () => ({ type: "spinner", props: {} }),
+ * });
+ * local.register("divider", () => ({ type: "divider", props: {} }));
+ * ```
+ */
+export function createLocalRegistry(renderers: Record<string, ComponentRenderer> = {}): Registry {
+  const map = new Map(Object.entries(renderers));
+
+  return {
+    get(type: string): ComponentRenderer | undefined {
+      return map.get(type);
+    },
+
+    has(type: string): boolean {
+      return map.has(type);
+    },
+
+    register(type: string, renderer: ComponentRenderer): void {
+      map.set(type, renderer);
+    },
+  };
+}
+
+// =============================================================================
+// Composite Registry
+// =============================================================================
+
+/**
+ * Registry combining local renderers, overrides and other registries.
+ */
+export interface CompositeRegistry extends Registry {
+  /** Force a renderer for a type, ahead of every other source */
+  override(type: string, renderer: ComponentRenderer): void;
+  /** Remove an override. Returns whether one existed. */
+  clearOverride(type: string): boolean;
+}
+
+/**
+ * Create a registry that resolves renderers from local renderers and other
+ * registries, in priority order:
+ *
+ * 1. Overrides (always first)
+ * 2. Local renderers and `sources`, ordered by `priority`
+ *
+ * A source answers for a type when its has() returns true. Procedure-backed
+ * registries without discovery answer has() optimistically, so place them
+ * after the local renderers.
+ *
+ * @param sources - Registries to resolve from, highest priority first
+ * @param options - Local renderers, overrides and priority
+ * @returns CompositeRegistry instance (splay-compatible)
+ *
+ * @example
+ * ```typescript
+ * const registry = createCompositeRegistry(
+ *   [createClientRegistry(call, { namespace: "ui" })],
+ *   { local: { spinner: renderSpinner } }
+ * );
+ *
+ * // Replace a procedure-backed component behind a feature flag
+ * if (flags.newCard) {
+ *   registry.override("user-card", renderNewUserCard);
+ * }
+ * ```
+ */
+export function createCompositeRegistry(
+  sources: Registry[],
+  options: CompositeRegistryOptions = {}
+): CompositeRegistry {
+  const { local = {}, overrides = {}, priority = "local-first" } = options;
+  const resolveType =
+    options.resolveType ?? sources.find((source) => source.resolveType)?.resolveType;
+  const defaultSize =
+    options.defaultSize ?? sources.find((source) => source.defaultSize)?.defaultSize;
+
+  const localRegistry = createLocalRegistry(local);
+  const overrideMap = new Map(Object.entries(overrides));
+
+  const ordered =
+    priority === "local-first" ? [localRegistry, ...sources] : [...sources, localRegistry];
+
+  return {
+    get(type: string): ComponentRenderer | undefined {
+      const overridden = overrideMap.get(type);
+      if (overridden) {
+        return overridden;
+      }
+
+      for (const source of ordered) {
+        if (source.has(type)) {
+          const renderer = source.get(type);
+          if (renderer) {
+            return renderer;
+          }
+        }
+      }
+
+      return undefined;
+    },
+
+    has(type: string): boolean {
+      return overrideMap.has(type) || ordered.some((source) => source.has(type));
+    },
+
+    /**
+     * Register a local renderer.
+     */
+    register(type: string, renderer: ComponentRenderer): void {
+      localRegistry.register(type, renderer);
+    },
+
+    override(type: string, renderer: ComponentRenderer): void {
+      overrideMap.set(type, renderer);
+    },
+
+    clearOverride(type: string): boolean {
+      return overrideMap.delete(type);
+    },
+
+    ...(resolveType ? { resolveType } : {}),
+    ...(defaultSize ? { defaultSize } : {}),
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Component Discovery
+ *
+ * Lists component procedures registered under `components.*` (served by the
+ * `splay.bridge.components` procedure) and lets registries use that listing
+ * for accurate has() checks and type enumeration.
+ */
+
+import type { ProcedureCaller } from "./registry.js";
+import { formatComponentType } from "./resolve.js";
+
+// =============================================================================
+// Listing Types
+// =============================================================================
+
+/**
+ * A component procedure found under `components.*`.
+ */
+export interface ComponentListing {
+  /** Component type, including `@version` for versioned procedures */
+  type: string;
+  /** Component name without version */
+  name: string;
+  /** Version, for procedures ending in a `v<version>` segment */
+  version?: string;
+  /** Dotted namespace between `components` and the name ("" for none) */
+  namespace: string;
+  /** Full procedure path */
+  path: string[];
+  /** Whether the procedure streams outputs */
+  streaming: boolean;
+  /** Procedure metadata */
+  meta: Record<string, unknown>;
+}
+
+/**
+ * Output of the `splay.bridge.components` procedure.
+ */
+export interface ComponentsList {
+  components: ComponentListing[];
+}
+
+/**
+ * Minimal shape of a registered procedure.
+ */
+export interface ProcedureLike {
+  path: readonly string[];
+  meta?: Record<string, unknown> | undefined;
+}
+
+// =============================================================================
+// Listing
+// =============================================================================
+
+/** Procedures under components.* that are bridge plumbing, not components */
+const RESERVED_NAMES = new Set(["__batch__"]);
+
+/** Trailing version segment, e.g. "v2" or "v2.1" */
+const VERSION_SEGMENT = /^v(\d[\w.-]*)$/;
+
+/**
+ * Describe a procedure as a component listing.
+ * Returns undefined for procedures outside `components.*`.
+ */
+export function describeComponentProcedure(procedure: ProcedureLike): ComponentListing | undefined {
+  const [root, ...rest] = procedure.path;
+  if (root !== "components" || rest.length === 0) {
+    return undefined;
+  }
+
+  let segments = rest;
+  let version: string | undefined;
+  const versionMatch = rest.length >= 2 ? VERSION_SEGMENT.exec(rest[rest.length - 1]!) : null;
+  if (versionMatch) {
+    version = versionMatch[1];
+    segments = rest.slice(0, -1);
+  }
+
+  const name = segments[segments.length - 1]!;
+  if (RESERVED_NAMES.has(name)) {
+    return undefined;
+  }
+
+  const meta = procedure.meta ?? {};
+  const listing: ComponentListing = {
+    type: formatComponentType(name, version),
+    name,
+    namespace: segments.slice(0, -1).join("."),
+    path: [...procedure.path],
+    streaming: meta["streaming"] === true,
+    meta,
+  };
+  if (version) {
+    listing.version = version;
+  }
+  return listing;
+}
+
+/**
+ * List the component procedures among a set of procedures.
+ *
+ * @param procedures - Registered procedures
+ * @param namespace - Only list components in this dotted namespace
+ */
+export function listComponentProcedures(
+  procedures: Iterable<ProcedureLike>,
+  namespace?: string
+): ComponentListing[] {
+  const listings: ComponentListing[] = [];
+
+  for (const procedure of procedures) {
+    const listing = describeComponentProcedure(procedure);
+    if (listing && (namespace === undefined || listing.namespace === namespace)) {
+      listings.push(listing);
+    }
+  }
+
+  return listings;
+}
+
+// =============================================================================
+// Component Directory
+// =============================================================================
+
+/**
+ * Client-side cache of the component listing.
+ */
+export interface ComponentDirectory {
+  /** Fetch the listing once; later calls reuse it */
+  load(): Promise<ComponentListing[]>;
+  /** Fetch the listing again */
+  refresh(): Promise<ComponentListing[]>;
+  /** Whether a listing has been fetched */
+  readonly loaded: boolean;
+  /** The fetched listing ([] before the first load) */
+  listings(): ComponentListing[];
+  /** Whether a procedure path is a listed component */
+  hasPath(path: readonly string[]): boolean;
+  /** The listing for a procedure path */
+  find(path: readonly string[]): ComponentListing | undefined;
+}
+
+/**
+ * Create a directory backed by the `splay.bridge.components` procedure.
+ *
+ * @param call - Client's procedure call function
+ * @param path - Path of the discovery procedure
+ * @returns ComponentDirectory instance
+ *
+ * @example
+ * ```typescript
+ * const directory = createComponentDirectory(call);
+ * await directory.load();
+ *
+ * const registry = createClientRegistry(call, { namespace: "ui", directory });
+ * registry.has("user-card"); // Accurate once loaded
+ * registry.types();          // ["user-card", "badge", ...]
+ * ```
+ */
+export function createComponentDirectory(
+  call: ProcedureCaller,
+  path: string[] = ["splay", "bridge", "components"]
+): ComponentDirectory {
+  let current: ComponentListing[] = [];
+  let byPath = new Map<string, ComponentListing>();
+  let loaded = false;
+  let pending: Promise<ComponentListing[]> | null = null;
+
+  function fetchListing(): Promise<ComponentListing[]> {
+    pending = call<ComponentsList>(path, {}).then(
+      (result) => {
+        current = result.components;
+        byPath = new Map(current.map((listing) => [listing.path.join("."), listing]));
+        loaded = true;
+        return current;
+      },
+      (error: unknown) => {
+        pending = null;
+        throw error;
+      }
+    );
+    return pending;
+  }
+
+  return {
+    load(): Promise<ComponentListing[]> {
+      return pending ?? fetchListing();
+    },
+
+    refresh(): Promise<ComponentListing[]> {
+      return fetchListing();
+    },
+
+    get loaded(): boolean {
+      return loaded;
+    },
+
+    listings(): ComponentListing[] {
+      return current;
+    },
+
+    hasPath(procedurePath: readonly string[]): boolean {
+      return byPath.has(procedurePath.join("."));
+    },
+
+    find(procedurePath: readonly string[]): ComponentListing | undefined {
+      return byPath.get(procedurePath.join("."));
+    },
+  };
+}
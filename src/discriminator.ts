@@ -0,0 +1,86 @@
+/**
+ * Component Type Resolution
+ *
+ * Determines the component type of a data node: from discriminator keys
+ * (optionally mapped to component types), from shape predicates, or from
+ * defaults for primitives and arrays.
+ */
+
+import type { TypeResolver, TypeResolverOptions } from "./types.js";
+
+// =============================================================================
+// Type Resolver
+// =============================================================================
+
+/**
+ * Discriminator keys checked by default.
+ */
+export const DEFAULT_TYPE_KEYS: readonly string[] = ["type", "__type__"];
+
+/**
+ * Create a type resolver.
+ *
+ * Resolution order:
+ * 1. The first string-valued discriminator key of an object, through `map`
+ * 2. The first matching predicate
+ * 3. `array` for arrays, `primitive` for strings, numbers, booleans and bigints
+ *
+ * @param options - Resolver options
+ * @returns Function returning the component type of a data node, or null
+ *
+ * @example
+ * ```typescript
+ * const resolveType = createTypeResolver({
+ *   keys: ["__typename", "kind", "_tag"],
+ *   map: { User: "user-card", Post: "post-preview" },
+ *   matchers: [{ type: "money", test: (data) => isObject(data) && "currency" in data }],
+ *   array: "list",
+ *   primitive: "text",
+ * });
+ *
+ * const registry = createClientRegistry(call, { namespace: "ui", resolveType });
+ * ```
+ */
+export function createTypeResolver(options: TypeResolverOptions = {}): TypeResolver {
+  const { keys = DEFAULT_TYPE_KEYS, map = {}, matchers = [], array, primitive } = options;
+  const mapped = new Map(Object.entries(map));
+
+  return (data: unknown): string | null => {
+    // Discriminator keys
+    if (data !== null && typeof data === "object" && !Array.isArray(data)) {
+      const obj = data as Record<string, unknown>;
+      for (const key of keys) {
+        const value = obj[key];
+        if (typeof value === "string") {
+          return mapped.get(value) ?? value;
+        }
+      }
+    }
+
+    // Shape predicates
+    for (const matcher of matchers) {
+      if (matcher.test(data)) {
+        return matcher.type;
+      }
+    }
+
+    // Defaults
+    if (Array.isArray(data)) {
+      return array ?? null;
+    }
+    if (isPrimitive(data)) {
+      return primitive ?? null;
+    }
+    return null;
+  };
+}
+
+/**
+ * The default resolver: a `type` or `__type__` property.
+ */
+export const defaultTypeResolver: TypeResolver = createTypeResolver();
+
+function isPrimitive(data: unknown): boolean {
+  const kind = typeof data;
+  return kind === "string" || kind === "number" || kind === "boolean" || kind === "bigint";
+}
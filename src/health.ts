@@ -0,0 +1,293 @@
+/**
+ * Bridge Health
+ *
+ * Probes the bridge for the `splay.bridge.health` procedure: whether the
+ * bridge's own procedures are registered, whether component procedures are
+ * registered for each render path and configured namespace, and optional
+ * canary renders with latency. Sync and streaming paths are reported
+ * separately.
+ */
+
+import type { ComponentOutput, Size } from "@mark1russell7/client/components";
+import type { RenderContext } from "./types.js";
+import type { ProcedureCaller } from "./registry.js";
+import type { StreamingProcedureCaller } from "./streaming.js";
+import type { ProcedureLike } from "./discovery.js";
+import { createClientRegistry, createRenderContext } from "./registry.js";
+import { createStreamingRegistry } from "./streaming.js";
+import { listComponentProcedures } from "./discovery.js";
+import { callWithPolicy } from "./resilience.js";
+import { getErrorMessage, isErrorOutput } from "./boundary.js";
+import { createLocalRegistry } from "./composite.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Overall health, worst first: unhealthy > degraded > healthy.
+ */
+export type HealthStatus = "healthy" | "degraded" | "unhealthy";
+
+/**
+ * Result of a single probe.
+ */
+export interface HealthCheckResult {
+  /** Probe name, e.g. "procedures", "namespace:ui" or "canary:user-card" */
+  name: string;
+  /** Whether the probe passed */
+  status: "pass" | "fail";
+  /** Failure reason or extra detail */
+  message?: string;
+  /** Probe latency in milliseconds */
+  latencyMs?: number;
+}
+
+/**
+ * Health of the sync or streaming render path.
+ */
+export interface PathHealth {
+  status: HealthStatus;
+  checks: HealthCheckResult[];
+}
+
+/**
+ * Structured health report.
+ */
+export interface BridgeHealth {
+  status: HealthStatus;
+  timestamp: string;
+  /** Probes shared by both paths (procedures and namespace resolution) */
+  checks: HealthCheckResult[];
+  sync: PathHealth;
+  streaming: PathHealth;
+}
+
+/**
+ * A component rendered as a health canary.
+ */
+export interface HealthCanary {
+  /** Component type to render */
+  type: string;
+  /** Render through the streaming path (first frame) instead of the sync path */
+  streaming?: boolean;
+  /** Data to render (default: `{ type }`) */
+  data?: unknown;
+  /** Size to render at (default: 100x100) */
+  size?: Size;
+  /** Namespace of the component (default: the first configured namespace) */
+  namespace?: string;
+}
+
+/**
+ * What to probe.
+ */
+export interface HealthOptions {
+  /** Namespaces that must contain at least one component procedure */
+  namespaces?: string[];
+  /** Components to canary-render */
+  canaries?: HealthCanary[];
+  /** Timeout for each canary render in milliseconds (default: 5000) */
+  timeoutMs?: number;
+}
+
+/**
+ * What the probes run against.
+ */
+export interface HealthDependencies {
+  call: ProcedureCaller;
+  stream: StreamingProcedureCaller;
+  /** Registered procedures, for namespace resolution */
+  procedures: () => Iterable<ProcedureLike>;
+  /** Procedures that must be registered, e.g. the bridge's own (default: none) */
+  required?: readonly (readonly string[])[];
+}
+
+// =============================================================================
+// Health Check
+// =============================================================================
+
+const CANARY_SIZE: Size = { width: 100, height: 100 };
+
+/**
+ * Probe the bridge and produce a structured health report.
+ *
+ * - A missing required procedure, or no component procedures at all, makes
+ *   the bridge unhealthy
+ * - A path whose canaries all fail is unhealthy
+ * - A path without component procedures, or with some failing canaries, is degraded
+ * - A namespace without component procedures degrades the bridge
+ *
+ * @param deps - Procedure callers and registered procedures
+ * @param options - Namespaces and canaries to probe
+ * @returns Health report
+ */
+export async function checkBridgeHealth(
+  deps: HealthDependencies,
+  options: HealthOptions = {}
+): Promise<BridgeHealth> {
+  const { namespaces = [], canaries = [], timeoutMs = 5000 } = options;
+  const defaultNamespace = namespaces[0];
+
+  let procedures: ProcedureLike[];
+  try {
+    procedures = [...deps.procedures()];
+  } catch (error) {
+    const check: HealthCheckResult = {
+      name: "procedures",
+      status: "fail",
+      message: getErrorMessage(error),
+    };
+    return {
+      status: "unhealthy",
+      timestamp: new Date().toISOString(),
+      checks: [check],
+      sync: { status: "unhealthy", checks: [] },
+      streaming: { status: "unhealthy", checks: [] },
+    };
+  }
+
+  // Procedures the bridge needs, and components for it to render
+  const registered = new Set(procedures.map((procedure) => procedure.path.join(".")));
+  const missing = (deps.required ?? [])
+    .map((path) => path.join("."))
+    .filter((path) => !registered.has(path));
+  const components = listComponentProcedures(procedures, defaultNamespace);
+
+  const critical: HealthCheckResult[] = [
+    missing.length === 0
+      ? { name: "procedures", status: "pass" }
+      : { name: "procedures", status: "fail", message: `Not registered: ${missing.join(", ")}` },
+    components.length > 0
+      ? { name: "components", status: "pass", message: `${components.length} component procedures` }
+      : { name: "components", status: "fail", message: "No component procedures registered" },
+  ];
+
+  // Namespace resolution
+  const namespaceChecks: HealthCheckResult[] = namespaces.map((namespace) => {
+    const name = `namespace:${namespace}`;
+    const count = listComponentProcedures(procedures, namespace).length;
+    return count > 0
+      ? { name, status: "pass", message: `${count} component procedures` }
+      : { name, status: "fail", message: "No component procedures found" };
+  });
+
+  /**
+   * Build a registry for the canary's namespace and render it.
+   */
+  async function runCanary(canary: HealthCanary): Promise<HealthCheckResult> {
+    const name = `canary:${canary.type}`;
+    const namespace = canary.namespace ?? defaultNamespace;
+    const registryOptions = namespace ? { namespace } : {};
+    const data = canary.data ?? { type: canary.type };
+    const size = canary.size ?? CANARY_SIZE;
+    const start = Date.now();
+
+    try {
+      const output = await callWithPolicy<ComponentOutput | undefined>(
+        canary.type,
+        async (signal) => {
+          const ctx: RenderContext = {
+            ...createRenderContext(createLocalRegistry(), data, size, "health"),
+            signal,
+          };
+          return canary.streaming
+            ? firstFrame(createStreamingRegistry(deps.stream, registryOptions), canary.type, ctx)
+            : createClientRegistry(deps.call, registryOptions).get(canary.type)!(ctx);
+        },
+        { timeoutMs }
+      );
+
+      const latencyMs = Date.now() - start;
+      if (!output) {
+        return { name, status: "fail", message: "Stream ended without output", latencyMs };
+      }
+      if (isErrorOutput(output)) {
+        return { name, status: "fail", message: String(output.props["message"]), latencyMs };
+      }
+      return { name, status: "pass", latencyMs };
+    } catch (error) {
+      return { name, status: "fail", message: getErrorMessage(error), latencyMs: Date.now() - start };
+    }
+  }
+
+  const [sync, streaming] = await Promise.all([
+    checkPath(
+      components.filter((listing) => !listing.streaming).length,
+      canaries.filter((canary) => !canary.streaming),
+      runCanary
+    ),
+    checkPath(
+      components.filter((listing) => listing.streaming).length,
+      canaries.filter((canary) => canary.streaming),
+      runCanary
+    ),
+  ]);
+
+  const failed = (checks: HealthCheckResult[]) => checks.some((check) => check.status === "fail");
+  const shared: HealthStatus = failed(critical)
+    ? "unhealthy"
+    : failed(namespaceChecks)
+      ? "degraded"
+      : "healthy";
+
+  return {
+    status: worst([shared, sync.status, streaming.status]),
+    timestamp: new Date().toISOString(),
+    checks: [...critical, ...namespaceChecks],
+    sync,
+    streaming,
+  };
+}
+
+/**
+ * Probe one render path: its component procedures, then its canaries.
+ */
+async function checkPath(
+  componentCount: number,
+  canaries: HealthCanary[],
+  runCanary: (canary: HealthCanary) => Promise<HealthCheckResult>
+): Promise<PathHealth> {
+  const checks: HealthCheckResult[] = [
+    componentCount > 0
+      ? { name: "components", status: "pass", message: `${componentCount} component procedures` }
+      : { name: "components", status: "fail", message: "No component procedures for this path" },
+  ];
+
+  const results = await Promise.all(canaries.map(runCanary));
+  checks.push(...results);
+
+  const failed = results.filter((result) => result.status === "fail").length;
+  const status: HealthStatus =
+    failed > 0 && failed === results.length
+      ? "unhealthy"
+      : failed > 0 || componentCount === 0
+        ? "degraded"
+        : "healthy";
+
+  return { status, checks };
+}
+
+/**
+ * Take the first frame of a streaming component, closing the stream after.
+ */
+async function firstFrame(
+  registry: ReturnType<typeof createStreamingRegistry>,
+  type: string,
+  ctx: RenderContext
+): Promise<ComponentOutput | undefined> {
+  for await (const output of registry.get(type)!(ctx)) {
+    return output;
+  }
+  return undefined;
+}
+
+/**
+ * Pick the worst of several statuses.
+ */
+function worst(statuses: HealthStatus[]): HealthStatus {
+  if (statuses.includes("unhealthy")) {
+    return "unhealthy";
+  }
+  return statuses.includes("degraded") ? "degraded" : "healthy";
+}
@@ -12,6 +12,7 @@
 
 import type { ComponentOutput } from "@mark1russell7/client/components";
 import type { ComponentMap, HydrateOptions } from "./types.js";
+import { ERROR_TYPE } from "./boundary.js";
 
 // Portable console access (works in Node and browser)
 type ConsoleType = {
@@ -56,7 +57,7 @@ export function createHydrate<TComponent>(
   descriptor: ComponentOutput | null,
   createElement: CreateElement<TComponent>
 ) => TComponent | null {
-  const { components, fallback, onNull, onFragment } = options;
+  const { components, fallback, onNull, onFragment, onError } = options;
 
   return function hydrate(
     descriptor: ComponentOutput | null,
@@ -86,6 +87,24 @@ export function createHydrate<TComponent>(
       return children[0] ?? null;
     }
 
+    // Handle error descriptors from failed renders
+    if (descriptor.type === ERROR_TYPE) {
+      if (onError) {
+        return onError(descriptor.props);
+      }
+
+      const ErrorComponent = components[ERROR_TYPE];
+      if (!ErrorComponent) {
+        log.warn(
+          `Render failed at ${String(descriptor.props["path"])}: ` +
+            String(descriptor.props["message"])
+        );
+        return null;
+      }
+
+      return createElement(ErrorComponent, { ...descriptor.props, key: descriptor.key });
+    }
+
     // Look up component
     const Component = components[descriptor.type] ?? fallback;
 
@@ -134,6 +153,8 @@ export interface ReactHydrateOptions {
   components: ComponentMap<ReactLikeComponent>;
   /** Fallback component for unknown types */
   fallback?: ReactLikeComponent;
+  /** Component for error descriptors, receives `{ message, path, type }` */
+  errorComponent?: ReactLikeComponent;
 }
 
 /**
@@ -176,7 +197,7 @@ export function createReactHydrate(
   react: ReactLike,
   options: ReactHydrateOptions
 ): (descriptor: ComponentOutput | null) => unknown {
-  const { components, fallback } = options;
+  const { components, fallback, errorComponent } = options;
 
   function hydrate(descriptor: ComponentOutput | null): unknown {
     if (descriptor === null) {
@@ -192,6 +213,18 @@ export function createReactHydrate(
       return react.createElement(react.Fragment, null, ...children);
     }
 
+    if (descriptor.type === ERROR_TYPE) {
+      const ErrorComponent = errorComponent ?? components[ERROR_TYPE];
+      if (!ErrorComponent) {
+        log.warn(
+          `Render failed at ${String(descriptor.props["path"])}: ` +
+            String(descriptor.props["message"])
+        );
+        return null;
+      }
+      return react.createElement(ErrorComponent, { ...descriptor.props, key: descriptor.key });
+    }
+
     const Component = components[descriptor.type];
 
     if (!Component) {
@@ -284,7 +317,7 @@ export function getUsedTypes(descriptor: ComponentOutput): Set<string> {
   const types = new Set<string>();
 
   walkDescriptor(descriptor, (node) => {
-    if (node.type !== "__null__" && node.type !== "__fragment__") {
+    if (node.type !== "__null__" && node.type !== "__fragment__" && node.type !== ERROR_TYPE) {
       types.add(node.type);
     }
   });
@@ -37,6 +37,20 @@
 // =============================================================================
 
 export type {
+  // Cancellation
+  AbortSignalLike,
+  CallOptions,
+  StreamOperatorOptions,
+
+  // Scheduling
+  Scheduler,
+  TimeOperatorOptions,
+
+  // Stream merging
+  KeyedStreams,
+  KeyedOutput,
+  CombineStreamsOptions,
+
   // Render context
   RenderContext,
 
@@ -44,11 +58,71 @@ export type {
   ComponentRenderer,
   StreamingComponentRenderer,
   Registry,
+  ClientRegistry,
   StreamingRegistry,
 
+  // Type resolution
+  TypeResolver,
+  TypeResolverOptions,
+
+  // Render context options & error boundaries
+  RenderContextOptions,
+  RenderAncestor,
+  RenderErrorInfo,
+  ErrorBoundary,
+
+  // Component calls & middleware
+  ComponentInput,
+  ComponentCall,
+  ComponentMiddleware,
+  StreamingComponentMiddleware,
+
   // Registry options
   ClientRegistryOptions,
   StreamingRegistryOptions,
+  BackpressureStrategy,
+  DroppedFrames,
+  SequencedOutput,
+  StreamStatus,
+  RetryPolicy,
+  CompositeRegistryOptions,
+
+  // Tracing
+  RenderSpan,
+  SpanAttributeValue,
+  SpanEvent,
+  SpanExporter,
+  SpanStatus,
+  Tracer,
+  TracerOptions,
+
+  // Render cache
+  RenderCache,
+  RenderCacheOptions,
+
+  // Render metrics
+  RenderMetrics,
+  RenderMetricsOptions,
+  CallOutcome,
+  ComponentMetrics,
+  HistogramSnapshot,
+  MetricsSnapshot,
+
+  // Batching
+  BatchOptions,
+
+  // Layout
+  LayoutSpec,
+  LayoutItem,
+  MeasureChild,
+
+  // Render tree
+  RenderTreeOptions,
+
+  // Descriptor patches
+  DescriptorPath,
+  DescriptorPatch,
+  DescriptorFrame,
 
   // Hydration
   ComponentMap,
@@ -63,9 +137,193 @@ export {
   createClientRegistry,
   createCheckedRegistry,
   createRenderContext,
+  renderComponent,
   type ProcedureCaller,
 } from "./registry.js";
 
+// =============================================================================
+// Error Boundaries
+// =============================================================================
+
+export {
+  ERROR_TYPE,
+  errorOutput,
+  isErrorOutput,
+  type ErrorOutputProps,
+} from "./boundary.js";
+
+// =============================================================================
+// Render Loops
+// =============================================================================
+
+export { RenderLoopError, renderLoopOutput, DEFAULT_MAX_DEPTH } from "./loop.js";
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+export {
+  componentOutputSchema,
+  validateComponentOutput,
+  assertComponentOutput,
+  SchemaValidationError,
+  type Schema,
+  type ZodLikeSchema,
+  type ZodErrorLike,
+  type ZodIssueLike,
+} from "./schema.js";
+
+// =============================================================================
+// Middleware
+// =============================================================================
+
+export { composeMiddleware, composeStreamingMiddleware } from "./middleware.js";
+
+// =============================================================================
+// Timeouts & Retries
+// =============================================================================
+
+export { TimeoutError, timeoutOutput, backoffDelay } from "./resilience.js";
+
+// =============================================================================
+// Resumable Streams
+// =============================================================================
+
+export {
+  createFrameLog,
+  resumeStream,
+  type FrameLog,
+  type FrameLogOptions,
+  type ResumeStreamOptions,
+} from "./resume.js";
+
+// =============================================================================
+// Render Metrics
+// =============================================================================
+
+export {
+  createRenderMetrics,
+  formatPrometheus,
+  bridgeMetrics,
+  OTHER_TYPE,
+} from "./metrics.js";
+
+// =============================================================================
+// Tracing
+// =============================================================================
+
+export {
+  createTracer,
+  createMemoryExporter,
+  createOtlpExporter,
+  toOtlpJson,
+  type MemoryExporter,
+  type OtlpAttribute,
+  type OtlpSpan,
+  type OtlpTraceData,
+} from "./tracing.js";
+
+// =============================================================================
+// Render Cache
+// =============================================================================
+
+export { createRenderCache, stableHash, stableStringify } from "./cache.js";
+
+// =============================================================================
+// Batching
+// =============================================================================
+
+export {
+  createBatchingCaller,
+  createBatchHandler,
+  type BatchItem,
+  type BatchRequest,
+  type BatchItemResult,
+} from "./batch.js";
+
+// =============================================================================
+// Component Resolution
+// =============================================================================
+
+export {
+  parseComponentType,
+  formatComponentType,
+  type ParsedComponentType,
+} from "./resolve.js";
+
+// =============================================================================
+// Component Type Resolution
+// =============================================================================
+
+export { createTypeResolver, defaultTypeResolver, DEFAULT_TYPE_KEYS } from "./discriminator.js";
+
+// =============================================================================
+// Component Discovery
+// =============================================================================
+
+export {
+  createComponentDirectory,
+  describeComponentProcedure,
+  listComponentProcedures,
+  type ComponentDirectory,
+  type ComponentListing,
+  type ComponentsList,
+  type ProcedureLike,
+} from "./discovery.js";
+
+// =============================================================================
+// Composite Registry
+// =============================================================================
+
+export {
+  createCompositeRegistry,
+  createLocalRegistry,
+  type CompositeRegistry,
+} from "./composite.js";
+
+// =============================================================================
+// Render Tree
+// =============================================================================
+
+export { renderTree, renderTreeStream } from "./tree.js";
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+export {
+  computeLayout,
+  layoutChildren,
+  isLayoutSpec,
+  defaultGetLayout,
+  defaultMeasure,
+} from "./layout.js";
+
+// =============================================================================
+// Health
+// =============================================================================
+
+export {
+  checkBridgeHealth,
+  type BridgeHealth,
+  type HealthCanary,
+  type HealthCheckResult,
+  type HealthDependencies,
+  type HealthOptions,
+  type HealthStatus,
+  type PathHealth,
+} from "./health.js";
+
+// =============================================================================
+// Backpressure
+// =============================================================================
+
+export {
+  withBackpressure,
+  BufferOverflowError,
+  type BackpressureOptions,
+} from "./backpressure.js";
+
 // =============================================================================
 // Streaming
 // =============================================================================
@@ -74,12 +332,66 @@ export {
   createStreamingRegistry,
   createDualRegistry,
   mergeStreams,
-  throttleStream,
-  debounceStream,
   type StreamingProcedureCaller,
   type DualRegistry,
 } from "./streaming.js";
 
+// =============================================================================
+// Scheduling
+// =============================================================================
+
+export {
+  systemScheduler,
+  createVirtualScheduler,
+  type VirtualScheduler,
+  type VirtualSchedulerOptions,
+} from "./scheduler.js";
+
+// =============================================================================
+// Stream Operators
+// =============================================================================
+
+export {
+  mapStream,
+  filterStream,
+  scanStream,
+  distinctUntilChanged,
+  startWith,
+  catchError,
+  takeUntil,
+  throttleStream,
+  debounceStream,
+  sampleStream,
+  bufferTime,
+} from "./operators.js";
+
+// =============================================================================
+// Stream Merging
+// =============================================================================
+
+export { mergeKeyedStreams, combineStreams } from "./merge.js";
+
+// =============================================================================
+// Descriptor Patches
+// =============================================================================
+
+export { diffDescriptor, applyPatch, diffStream, patchStream } from "./patch.js";
+
+// =============================================================================
+// Stream Recording & Replay
+// =============================================================================
+
+export {
+  recordStream,
+  recordingCaller,
+  parseRecording,
+  createReplayCaller,
+  type Recording,
+  type RecordingLine,
+  type RecordingSink,
+  type ReplayOptions,
+} from "./recording.js";
+
 // =============================================================================
 // Hydration
 // =============================================================================
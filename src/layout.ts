@@ -0,0 +1,242 @@
+/**
+ * Layout
+ *
+ * Computes the sizes of a parent's children from the parent's layout
+ * (stack, flex or grid) and the children's preferred or measured sizes,
+ * so children are rendered at the size they will actually get.
+ */
+
+import type { ComponentOutput, Size } from "@mark1russell7/client/components";
+import type { LayoutItem, LayoutSpec, MeasureChild } from "./types.js";
+
+// =============================================================================
+// Layout Computation
+// =============================================================================
+
+/**
+ * Compute child sizes within a container.
+ *
+ * - **stack**: children take the full cross size; those without a preferred
+ *   main size share the space left after the ones with one
+ * - **flex**: children start at `basis` (else their preferred size), then
+ *   grow or shrink to fill the main axis; the cross axis stretches unless a
+ *   preferred cross size is given
+ * - **grid**: children fill `columns` equal columns row by row, spanning
+ *   `span` columns; rows share the height unless `rowHeight` is set
+ *
+ * @param spec - The parent's layout
+ * @param container - Size of the parent
+ * @param items - Layout hints of each child
+ * @returns Size of each child, in order
+ *
+ * @example
+ * ```typescript
+ * computeLayout(
+ *   { kind: "flex", direction: "row", gap: 8 },
+ *   { width: 816, height: 600 },
+ *   [{ basis: 200 }, { grow: 1 }, { grow: 2 }]
+ * );
+ * // → [{ width: 200, height: 600 }, { width: 200, height: 600 }, { width: 400, height: 600 }]
+ * ```
+ */
+export function computeLayout(
+  spec: LayoutSpec,
+  container: Size,
+  items: readonly LayoutItem[]
+): Size[] {
+  const padding = spec.padding ?? 0;
+  const inner: Size = {
+    width: Math.max(0, container.width - 2 * padding),
+    height: Math.max(0, container.height - 2 * padding),
+  };
+
+  switch (spec.kind) {
+    case "stack":
+      return stackLayout(spec.direction === "horizontal", spec.gap ?? 0, inner, items);
+    case "flex":
+      return flexLayout(spec.direction === "column", spec.gap ?? 0, inner, items);
+    case "grid":
+      return gridLayout(spec, inner, items);
+  }
+}
+
+/**
+ * Read a child's preferred size along an axis.
+ */
+function preferred(item: LayoutItem, vertical: boolean): number | undefined {
+  return vertical ? item.height : item.width;
+}
+
+/**
+ * Build a size from main and cross lengths.
+ */
+function toSize(main: number, cross: number, vertical: boolean): Size {
+  const clamp = (value: number) => Math.max(0, value);
+  return vertical
+    ? { width: clamp(cross), height: clamp(main) }
+    : { width: clamp(main), height: clamp(cross) };
+}
+
+function stackLayout(
+  horizontal: boolean,
+  gap: number,
+  inner: Size,
+  items: readonly LayoutItem[]
+): Size[] {
+  const vertical = !horizontal;
+  const mainSize = vertical ? inner.height : inner.width;
+  const crossSize = vertical ? inner.width : inner.height;
+
+  const fixed = items.reduce((sum, item) => sum + (preferred(item, vertical) ?? 0), 0);
+  const flexible = items.filter((item) => preferred(item, vertical) === undefined).length;
+  const gaps = gap * Math.max(0, items.length - 1);
+  const share = flexible > 0 ? Math.max(0, mainSize - gaps - fixed) / flexible : 0;
+
+  return items.map((item) => {
+    const cross = Math.min(preferred(item, !vertical) ?? crossSize, crossSize);
+    return toSize(preferred(item, vertical) ?? share, cross, vertical);
+  });
+}
+
+function flexLayout(
+  column: boolean,
+  gap: number,
+  inner: Size,
+  items: readonly LayoutItem[]
+): Size[] {
+  const mainSize = column ? inner.height : inner.width;
+  const crossSize = column ? inner.width : inner.height;
+
+  // Children with no size hint grow by default; sized children keep their size
+  const bases = items.map((item) => item.basis ?? preferred(item, column) ?? 0);
+  const grows = items.map((item) =>
+    item.grow ?? (item.basis === undefined && preferred(item, column) === undefined ? 1 : 0)
+  );
+  const shrinks = items.map((item) => item.shrink ?? 1);
+
+  const gaps = gap * Math.max(0, items.length - 1);
+  const free = mainSize - gaps - bases.reduce((sum, base) => sum + base, 0);
+
+  let mains: number[];
+  if (free >= 0) {
+    const totalGrow = grows.reduce((sum, grow) => sum + grow, 0);
+    mains = bases.map((base, index) =>
+      totalGrow > 0 ? base + (free * grows[index]!) / totalGrow : base
+    );
+  } else {
+    // Shrink in proportion to shrink factor times base size, as in CSS
+    const weights = bases.map((base, index) => base * shrinks[index]!);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    mains = bases.map((base, index) =>
+      totalWeight > 0 ? base + (free * weights[index]!) / totalWeight : base
+    );
+  }
+
+  return items.map((item, index) => {
+    const cross = Math.min(preferred(item, !column) ?? crossSize, crossSize);
+    return toSize(mains[index]!, cross, column);
+  });
+}
+
+function gridLayout(
+  spec: Extract<LayoutSpec, { kind: "grid" }>,
+  inner: Size,
+  items: readonly LayoutItem[]
+): Size[] {
+  const columns = Math.max(1, Math.floor(spec.columns));
+  const columnGap = spec.columnGap ?? spec.gap ?? 0;
+  const rowGap = spec.rowGap ?? spec.gap ?? 0;
+  const columnWidth = Math.max(0, (inner.width - columnGap * (columns - 1)) / columns);
+
+  // Place items row by row, wrapping when a span doesn't fit
+  const placements: { span: number; row: number }[] = [];
+  let row = 0;
+  let column = 0;
+  for (const item of items) {
+    const span = Math.min(columns, Math.max(1, Math.floor(item.span ?? 1)));
+    if (column + span > columns) {
+      row++;
+      column = 0;
+    }
+    placements.push({ span, row });
+    column += span;
+  }
+
+  const rows = items.length > 0 ? row + 1 : 0;
+  const rowHeight =
+    spec.rowHeight ??
+    (rows > 0 ? Math.max(0, (inner.height - rowGap * (rows - 1)) / rows) : inner.height);
+
+  return placements.map(({ span }) => ({
+    width: columnWidth * span + columnGap * (span - 1),
+    height: rowHeight,
+  }));
+}
+
+/**
+ * Measure children and compute their sizes within a container.
+ *
+ * @param spec - The parent's layout
+ * @param container - Size of the parent
+ * @param children - Child data nodes
+ * @param measure - Reports each child's layout hints (default: `layoutItem`)
+ */
+export async function layoutChildren(
+  spec: LayoutSpec,
+  container: Size,
+  children: readonly unknown[],
+  measure: MeasureChild = defaultMeasure
+): Promise<Size[]> {
+  const items = await Promise.all(children.map((child) => measure(child, container)));
+  return computeLayout(spec, container, items.map((item) => item ?? {}));
+}
+
+// =============================================================================
+// Layout Hints
+// =============================================================================
+
+const LAYOUT_KINDS: readonly string[] = ["stack", "flex", "grid"];
+
+/**
+ * Check if a value is a layout spec.
+ */
+export function isLayoutSpec(value: unknown): value is LayoutSpec {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const spec = value as Record<string, unknown>;
+  if (!LAYOUT_KINDS.includes(spec["kind"] as string)) {
+    return false;
+  }
+  return spec["kind"] !== "grid" || typeof spec["columns"] === "number";
+}
+
+/**
+ * Default layout lookup: the parent output's `props.layout`, else the
+ * parent data's `layout` property.
+ */
+export function defaultGetLayout(
+  data: unknown,
+  output: ComponentOutput | undefined
+): LayoutSpec | undefined {
+  const fromOutput = output?.props["layout"];
+  if (isLayoutSpec(fromOutput)) {
+    return fromOutput;
+  }
+  const fromData = readProperty(data, "layout");
+  return isLayoutSpec(fromData) ? fromData : undefined;
+}
+
+/**
+ * Default child measurement: the child data's `layoutItem` property.
+ */
+export function defaultMeasure(data: unknown): LayoutItem | undefined {
+  const item = readProperty(data, "layoutItem");
+  return item !== null && typeof item === "object" ? (item as LayoutItem) : undefined;
+}
+
+function readProperty(data: unknown, key: string): unknown {
+  return data !== null && typeof data === "object"
+    ? (data as Record<string, unknown>)[key]
+    : undefined;
+}
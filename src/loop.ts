@@ -0,0 +1,212 @@
+/**
+ * Render Loop Detection
+ *
+ * Bounds render depth and detects render cycles: a node whose data is the
+ * same object as an ancestor's, or a component rendering its own type at
+ * the same path or with identical data.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type { RenderAncestor, RenderContextOptions } from "./types.js";
+import type { RenderTarget } from "./registry.js";
+import { errorOutput } from "./boundary.js";
+import { stableHash, stableStringify } from "./cache.js";
+
+// =============================================================================
+// Render Loop Error
+// =============================================================================
+
+/**
+ * Thrown when a render exceeds the maximum depth or repeats an ancestor.
+ */
+export class RenderLoopError extends Error {
+  /** "depth" when maxDepth was exceeded, "cycle" when an ancestor repeated */
+  readonly reason: "depth" | "cycle";
+  /** Renders from the root to the offending one, as "type at path" */
+  readonly chain: string[];
+  /** Path of the offending render */
+  readonly path: string;
+  /** Component type of the offending render */
+  readonly componentType: string;
+
+  constructor(
+    reason: "depth" | "cycle",
+    detail: string,
+    chain: string[],
+    path: string,
+    componentType: string
+  ) {
+    super(`${detail}: ${chain.join(" > ")}`);
+    this.name = "RenderLoopError";
+    this.reason = reason;
+    this.chain = chain;
+    this.path = path;
+    this.componentType = componentType;
+  }
+}
+
+/**
+ * Convert a render loop error to an error descriptor.
+ */
+export function renderLoopOutput(error: RenderLoopError): ComponentOutput {
+  return errorOutput({
+    message: error.message,
+    path: error.path,
+    type: error.componentType,
+    code: error.reason === "depth" ? "max-depth" : "cycle",
+    chain: error.chain,
+  });
+}
+
+// =============================================================================
+// Loop Checks (shared with renderTree)
+// =============================================================================
+
+/**
+ * Default maximum render depth.
+ */
+export const DEFAULT_MAX_DEPTH = 100;
+
+/**
+ * Lazily computed hashes of a node's data: of its own data, without its
+ * `children`, and of all of it.
+ */
+interface DataHashes {
+  data: unknown;
+  own?: string;
+  full?: string;
+  text?: string;
+}
+
+// Data hashes of ancestors, computed at most once per ancestor
+const ancestorHashes = new WeakMap<RenderAncestor, DataHashes>();
+
+/**
+ * Check a render against its ancestors.
+ *
+ * @returns An error descriptor when a loop is found and `onRenderLoop` is
+ *   "descriptor", otherwise undefined
+ * @throws RenderLoopError when a loop is found and `onRenderLoop` is "throw"
+ */
+export function checkRenderLoop(
+  type: string,
+  target: RenderTarget,
+  options: RenderContextOptions
+): ComponentOutput | undefined {
+  const error = findRenderLoop(type, target, options);
+  if (!error) {
+    return undefined;
+  }
+  if (options.onRenderLoop === "descriptor") {
+    return renderLoopOutput(error);
+  }
+  throw error;
+}
+
+/**
+ * Find the loop a render would start, if any.
+ */
+export function findRenderLoop(
+  type: string,
+  target: RenderTarget,
+  options: RenderContextOptions
+): RenderLoopError | undefined {
+  const { maxDepth = DEFAULT_MAX_DEPTH, ancestors = [] } = options;
+  const chain = () => [...ancestors.map(describe), describe({ type, path: target.path })];
+
+  if (target.depth > maxDepth) {
+    return new RenderLoopError(
+      "depth",
+      `Maximum render depth ${maxDepth} exceeded at ${target.path}`,
+      chain(),
+      target.path,
+      type
+    );
+  }
+
+  const hashes: DataHashes = { data: target.data };
+  const isObject = typeof target.data === "object" && target.data !== null;
+
+  for (const ancestor of ancestors) {
+    let detail: string | undefined;
+
+    if (isObject && ancestor.data === target.data) {
+      detail = `Render cycle: data at ${target.path} is the same object as at ${ancestor.path}`;
+    } else if (ancestor.type === type) {
+      if (ancestor.path === target.path) {
+        detail = `Render cycle: ${type} renders itself at ${target.path}`;
+      } else if (sameData(hashesOf(ancestor), hashes)) {
+        detail = `Render cycle: ${type} at ${target.path} repeats the data of ${ancestor.path}`;
+      }
+    }
+
+    if (detail) {
+      return new RenderLoopError("cycle", detail, chain(), target.path, type);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Options for the renders a node starts: its ancestors plus the node itself.
+ */
+export function withAncestor(
+  options: RenderContextOptions,
+  type: string,
+  target: RenderTarget
+): RenderContextOptions {
+  const ancestor: RenderAncestor = { type, path: target.path, data: target.data };
+  return { ...options, ancestors: [...(options.ancestors ?? []), ancestor] };
+}
+
+function hashesOf(ancestor: RenderAncestor): DataHashes {
+  let hashes = ancestorHashes.get(ancestor);
+  if (!hashes) {
+    hashes = { data: ancestor.data };
+    ancestorHashes.set(ancestor, hashes);
+  }
+  return hashes;
+}
+
+/**
+ * Compare data by content. Own data is compared first, so the data
+ * children are only hashed when everything else matches; equal hashes are
+ * confirmed on the serialized data, so a collision never reports a cycle.
+ */
+function sameData(a: DataHashes, b: DataHashes): boolean {
+  return ownHash(a) === ownHash(b) && fullHash(a) === fullHash(b) && text(a) === text(b);
+}
+
+function ownHash(hashes: DataHashes): string {
+  if (hashes.own === undefined) {
+    const own = withoutChildren(hashes.data);
+    hashes.own = stableHash(own);
+    if (own === hashes.data) {
+      hashes.full = hashes.own;
+    }
+  }
+  return hashes.own;
+}
+
+function fullHash(hashes: DataHashes): string {
+  hashes.full ??= stableHash(hashes.data);
+  return hashes.full;
+}
+
+function text(hashes: DataHashes): string {
+  hashes.text ??= stableStringify(hashes.data);
+  return hashes.text;
+}
+
+function withoutChildren(data: unknown): unknown {
+  if (data === null || typeof data !== "object" || Array.isArray(data) || !("children" in data)) {
+    return data;
+  }
+  const { children: _children, ...own } = data as Record<string, unknown>;
+  return own;
+}
+
+function describe(render: { type: string; path: string }): string {
+  return `${render.type} at ${render.path}`;
+}
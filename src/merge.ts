@@ -0,0 +1,197 @@
+/**
+ * Stream Merging
+ *
+ * Merges component streams with one pending `next()` per source, so no
+ * frame is lost and no source is read concurrently. Keyed merges tag each
+ * frame with its source; combined streams keep the latest frame per key and
+ * emit a parent descriptor whenever a child updates.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type {
+  AbortSignalLike,
+  CombineStreamsOptions,
+  KeyedOutput,
+  KeyedStreams,
+  StreamOperatorOptions,
+} from "./types.js";
+import { abortable } from "./abort.js";
+
+// =============================================================================
+// Merge
+// =============================================================================
+
+type Settled<K, T> =
+  | { key: K; iterator: AsyncIterator<T>; result: IteratorResult<T> }
+  | { key: K; iterator: AsyncIterator<T>; error: unknown };
+
+/**
+ * Merge keyed sources into one stream of [key, value] pairs.
+ *
+ * Each source has at most one `next()` in flight; a source is read again
+ * only after its previous value was consumed. The first source error ends
+ * the merge. Ending the merge early, by error, abort or `return()`, closes
+ * every source still open.
+ */
+export async function* mergeEntries<K, T>(
+  sources: Iterable<readonly [K, AsyncIterable<T>]>,
+  signal?: AbortSignalLike
+): AsyncIterable<[K, T]> {
+  // Settled reads queue up in order; each read adds one reaction, so busy
+  // sources don't pile reactions onto the pending read of an idle one
+  const ready: Settled<K, T>[] = [];
+  const open = new Set<AsyncIterator<T>>();
+  let reading = 0;
+  let wake: (() => void) | undefined;
+
+  const settle = (settled: Settled<K, T>): void => {
+    reading--;
+    ready.push(settled);
+    const resolve = wake;
+    wake = undefined;
+    resolve?.();
+  };
+
+  const pull = (key: K, iterator: AsyncIterator<T>): void => {
+    reading++;
+    iterator.next().then(
+      (result) => settle({ key, iterator, result }),
+      (error: unknown) => settle({ key, iterator, error })
+    );
+  };
+
+  try {
+    for (const [key, source] of sources) {
+      const iterator = abortable(source, signal)[Symbol.asyncIterator]();
+      open.add(iterator);
+      pull(key, iterator);
+    }
+
+    while (reading > 0 || ready.length > 0) {
+      const settled = ready.shift();
+      if (!settled) {
+        await new Promise<void>((resolve) => (wake = resolve));
+        continue;
+      }
+
+      if ("error" in settled || settled.result.done) {
+        // The source has ended or thrown; it is already closed
+        open.delete(settled.iterator);
+      }
+      if ("error" in settled) {
+        throw settled.error;
+      }
+      if (settled.result.done) {
+        continue;
+      }
+
+      yield [settled.key, settled.result.value];
+      pull(settled.key, settled.iterator);
+    }
+  } finally {
+    // Close the sources still open; a pending next() settles first
+    for (const iterator of open) {
+      void Promise.resolve(iterator.return?.()).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Merge keyed component streams, tagging each output with its source key.
+ *
+ * @param sources - Streams by key
+ * @param options - Stream operator options
+ * @returns Outputs with their source key, in arrival order
+ *
+ * @example
+ * ```typescript
+ * for await (const { key, output } of mergeKeyedStreams({ header, feed, sidebar })) {
+ *   slots[key] = output;
+ * }
+ * ```
+ */
+export async function* mergeKeyedStreams(
+  sources: KeyedStreams,
+  options: StreamOperatorOptions = {}
+): AsyncIterable<KeyedOutput> {
+  for await (const [key, output] of mergeEntries(entriesOf(sources), options.signal)) {
+    yield { key, output };
+  }
+}
+
+// =============================================================================
+// Combine Latest
+// =============================================================================
+
+/**
+ * Combine keyed component streams into a stream of parent descriptors.
+ *
+ * Keeps the latest frame of each stream and emits a parent built from them
+ * whenever any stream emits. By default the parent is a fragment of the
+ * latest frames in source order, each keyed by its source key unless it
+ * has a key of its own. The stream ends when every source has ended.
+ *
+ * @param sources - Child streams by key
+ * @param options - Combine function, waitForAll and stream operator options
+ * @returns Parent descriptors
+ *
+ * @example
+ * ```typescript
+ * const page = combineStreams(
+ *   { header: headerStream, feed: feedStream },
+ *   {
+ *     combine: (latest) => ({
+ *       type: "page",
+ *       props: {},
+ *       children: [...latest.values()],
+ *     }),
+ *   }
+ * );
+ * ```
+ */
+export async function* combineStreams(
+  sources: KeyedStreams,
+  options: CombineStreamsOptions = {}
+): AsyncIterable<ComponentOutput> {
+  const { combine = fragmentOf, waitForAll = false, signal } = options;
+  const entries = entriesOf(sources);
+  const latest = new Map<string, ComponentOutput>();
+
+  for await (const [key, output] of mergeEntries(entries, signal)) {
+    latest.set(key, output);
+    if (waitForAll && latest.size < entries.length) {
+      continue;
+    }
+
+    // Present the frames in source order, not arrival order
+    const ordered = new Map<string, ComponentOutput>();
+    for (const [entryKey] of entries) {
+      const frame = latest.get(entryKey);
+      if (frame) {
+        ordered.set(entryKey, frame);
+      }
+    }
+    yield combine(ordered);
+  }
+}
+
+/**
+ * Default combine: a fragment of the latest frames, keyed by source.
+ */
+function fragmentOf(latest: ReadonlyMap<string, ComponentOutput>): ComponentOutput {
+  return {
+    type: "__fragment__",
+    props: {},
+    children: Array.from(latest, ([key, output]) => ({ ...output, key: output.key ?? key })),
+  };
+}
+
+function entriesOf(sources: KeyedStreams): [string, AsyncIterable<ComponentOutput>][] {
+  return isMap(sources) ? Array.from(sources) : Object.entries(sources);
+}
+
+function isMap(
+  sources: KeyedStreams
+): sources is ReadonlyMap<string, AsyncIterable<ComponentOutput>> {
+  return typeof (sources as { get?: unknown }).get === "function" && Symbol.iterator in sources;
+}
@@ -0,0 +1,354 @@
+/**
+ * Render Metrics
+ *
+ * Per-type counters and latency histograms for component calls, cache
+ * lookups and streams. Recording is a few array and counter updates, and
+ * the number of types tracked is capped, so collection can stay on in
+ * production even when callers choose the types.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type {
+  AbortSignalLike,
+  CallOutcome,
+  ComponentMetrics,
+  HistogramSnapshot,
+  MetricsSnapshot,
+  RenderMetrics,
+  RenderMetricsOptions,
+} from "./types.js";
+import { TimeoutError } from "./resilience.js";
+
+// =============================================================================
+// Metrics Collector
+// =============================================================================
+
+const DEFAULT_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+const DEFAULT_MAX_TYPES = 256;
+
+/**
+ * Type the metrics of types beyond maxTypes are recorded under.
+ */
+export const OTHER_TYPE = "__other__";
+
+interface Histogram {
+  /** Non-cumulative counts per bucket, plus a trailing +Inf bucket */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+interface TypeMetrics {
+  calls: number;
+  errors: number;
+  timeouts: number;
+  cacheHits: number;
+  cacheMisses: number;
+  latency: Histogram;
+  streams: number;
+  streamErrors: number;
+  frames: number;
+  droppedFrames: number;
+  streamDuration: Histogram;
+}
+
+/**
+ * Create a metrics collector for use with the registries.
+ *
+ * Types are tracked separately up to `maxTypes`; types seen after that are
+ * recorded together under OTHER_TYPE, so the metrics stay bounded.
+ *
+ * @param options - Metrics options
+ * @returns RenderMetrics instance
+ *
+ * @example
+ * ```typescript
+ * const metrics = createRenderMetrics();
+ * const registry = createClientRegistry(call, { namespace: "ui", metrics });
+ *
+ * // Later
+ * metrics.snapshot().components["user-card"]?.latency;
+ * response.end(metrics.toPrometheus());
+ * ```
+ */
+export function createRenderMetrics(options: RenderMetricsOptions = {}): RenderMetrics {
+  const bounds = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  const maxTypes = Math.max(0, options.maxTypes ?? DEFAULT_MAX_TYPES);
+  const types = new Map<string, TypeMetrics>();
+
+  function createHistogram(): Histogram {
+    return { counts: new Array<number>(bounds.length + 1).fill(0), sum: 0, count: 0 };
+  }
+
+  function observe(histogram: Histogram, value: number): void {
+    let index = 0;
+    while (index < bounds.length && value > bounds[index]!) {
+      index++;
+    }
+    histogram.counts[index]!++;
+    histogram.sum += value;
+    histogram.count++;
+  }
+
+  function metricsFor(type: string): TypeMetrics {
+    let metrics = types.get(type);
+    if (!metrics) {
+      const tracked = types.size - (types.has(OTHER_TYPE) ? 1 : 0);
+      if (tracked >= maxTypes) {
+        type = OTHER_TYPE;
+        metrics = types.get(type);
+      }
+    }
+    if (!metrics) {
+      metrics = {
+        calls: 0,
+        errors: 0,
+        timeouts: 0,
+        cacheHits: 0,
+        cacheMisses: 0,
+        latency: createHistogram(),
+        streams: 0,
+        streamErrors: 0,
+        frames: 0,
+        droppedFrames: 0,
+        streamDuration: createHistogram(),
+      };
+      types.set(type, metrics);
+    }
+    return metrics;
+  }
+
+  function snapshotHistogram(histogram: Histogram): HistogramSnapshot {
+    let cumulative = 0;
+    return {
+      buckets: bounds.map((le, index) => {
+        cumulative += histogram.counts[index]!;
+        return { le, count: cumulative };
+      }),
+      sum: histogram.sum,
+      count: histogram.count,
+    };
+  }
+
+  return {
+    recordCall(type: string, durationMs: number, outcome: CallOutcome): void {
+      const metrics = metricsFor(type);
+      metrics.calls++;
+      if (outcome === "error") {
+        metrics.errors++;
+      } else if (outcome === "timeout") {
+        metrics.timeouts++;
+      }
+      observe(metrics.latency, durationMs);
+    },
+
+    recordCacheLookup(type: string, hit: boolean): void {
+      const metrics = metricsFor(type);
+      if (hit) {
+        metrics.cacheHits++;
+      } else {
+        metrics.cacheMisses++;
+      }
+    },
+
+    recordFrame(type: string): void {
+      metricsFor(type).frames++;
+    },
+
+    recordDrop(type: string, count: number): void {
+      metricsFor(type).droppedFrames += count;
+    },
+
+    recordStream(type: string, durationMs: number, failed: boolean): void {
+      const metrics = metricsFor(type);
+      metrics.streams++;
+      if (failed) {
+        metrics.streamErrors++;
+      }
+      observe(metrics.streamDuration, durationMs);
+    },
+
+    snapshot(): MetricsSnapshot {
+      const components: Record<string, ComponentMetrics> = {};
+      for (const [type, metrics] of types) {
+        components[type] = {
+          ...metrics,
+          latency: snapshotHistogram(metrics.latency),
+          streamDuration: snapshotHistogram(metrics.streamDuration),
+        };
+      }
+      return { timestamp: new Date().toISOString(), components };
+    },
+
+    toPrometheus(): string {
+      return formatPrometheus(this.snapshot());
+    },
+
+    reset(): void {
+      types.clear();
+    },
+  };
+}
+
+// =============================================================================
+// Instrumentation
+// =============================================================================
+
+/**
+ * Time a component call and record its outcome. Aborted calls are not recorded.
+ */
+export async function measureCall<T>(
+  metrics: RenderMetrics | undefined,
+  type: string,
+  signal: AbortSignalLike | undefined,
+  call: () => Promise<T>
+): Promise<T> {
+  if (!metrics) {
+    return call();
+  }
+
+  const start = Date.now();
+  try {
+    const result = await call();
+    metrics.recordCall(type, Date.now() - start, "ok");
+    return result;
+  } catch (error) {
+    if (!signal?.aborted) {
+      const outcome = error instanceof TimeoutError ? "timeout" : "error";
+      metrics.recordCall(type, Date.now() - start, outcome);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Count the frames of a component stream and record its duration when it ends.
+ */
+export async function* measureStream(
+  metrics: RenderMetrics,
+  type: string,
+  stream: AsyncIterable<ComponentOutput>
+): AsyncIterable<ComponentOutput> {
+  const start = Date.now();
+  let failed = false;
+  try {
+    for await (const output of stream) {
+      metrics.recordFrame(type);
+      yield output;
+    }
+  } catch (error) {
+    failed = true;
+    throw error;
+  } finally {
+    metrics.recordStream(type, Date.now() - start, failed);
+  }
+}
+
+// =============================================================================
+// Prometheus Format
+// =============================================================================
+
+/**
+ * Render a metrics snapshot in Prometheus text exposition format.
+ * Latencies are converted to seconds, per Prometheus convention.
+ */
+export function formatPrometheus(snapshot: MetricsSnapshot): string {
+  const entries = Object.entries(snapshot.components);
+  const lines: string[] = [];
+
+  function counter(name: string, help: string, value: (metrics: ComponentMetrics) => number) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+    for (const [type, metrics] of entries) {
+      lines.push(`${name}{type="${escapeLabel(type)}"} ${value(metrics)}`);
+    }
+  }
+
+  function histogram(
+    name: string,
+    help: string,
+    value: (metrics: ComponentMetrics) => HistogramSnapshot
+  ) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`);
+    for (const [type, metrics] of entries) {
+      const label = `type="${escapeLabel(type)}"`;
+      const { buckets, sum, count } = value(metrics);
+      for (const bucket of buckets) {
+        lines.push(`${name}_bucket{${label},le="${bucket.le / 1000}"} ${bucket.count}`);
+      }
+      lines.push(
+        `${name}_bucket{${label},le="+Inf"} ${count}`,
+        `${name}_sum{${label}} ${sum / 1000}`,
+        `${name}_count{${label}} ${count}`
+      );
+    }
+  }
+
+  counter("splay_component_calls_total", "Component procedure calls", (m) => m.calls);
+  counter(
+    "splay_component_errors_total",
+    "Component procedure calls that failed",
+    (m) => m.errors
+  );
+  counter(
+    "splay_component_timeouts_total",
+    "Component procedure calls that timed out",
+    (m) => m.timeouts
+  );
+  counter("splay_component_cache_hits_total", "Render cache hits", (m) => m.cacheHits);
+  counter("splay_component_cache_misses_total", "Render cache misses", (m) => m.cacheMisses);
+  histogram(
+    "splay_component_call_duration_seconds",
+    "Component procedure call latency",
+    (m) => m.latency
+  );
+  counter("splay_component_streams_total", "Component streams that ended", (m) => m.streams);
+  counter(
+    "splay_component_stream_errors_total",
+    "Component streams that failed",
+    (m) => m.streamErrors
+  );
+  counter(
+    "splay_component_stream_frames_total",
+    "Frames emitted by component streams",
+    (m) => m.frames
+  );
+  counter(
+    "splay_component_stream_dropped_frames_total",
+    "Frames dropped by stream backpressure",
+    (m) => m.droppedFrames
+  );
+  histogram(
+    "splay_component_stream_duration_seconds",
+    "Component stream duration",
+    (m) => m.streamDuration
+  );
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Escape a Prometheus label value.
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+// =============================================================================
+// Bridge Metrics
+// =============================================================================
+
+/**
+ * Metrics reported by the `splay.bridge.metrics` procedure. Registries record
+ * here unless given their own collector or `metrics: false`.
+ */
+export const bridgeMetrics: RenderMetrics = createRenderMetrics();
+
+/**
+ * The collector a registry records into: its own, none for `false`, or
+ * bridgeMetrics by default.
+ */
+export function registryMetrics(
+  metrics: RenderMetrics | false | undefined
+): RenderMetrics | undefined {
+  return metrics === false ? undefined : (metrics ?? bridgeMetrics);
+}
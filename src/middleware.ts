@@ -0,0 +1,69 @@
+/**
+ * Middleware
+ *
+ * Composes middleware around component procedure calls. Middleware sees the
+ * component type, the procedure path and the render input, and can rewrite
+ * the call, observe the result, map errors, or short-circuit with its own
+ * ComponentOutput.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type {
+  ComponentCall,
+  ComponentMiddleware,
+  StreamingComponentMiddleware,
+} from "./types.js";
+
+// =============================================================================
+// Composition
+// =============================================================================
+
+/**
+ * Compose sync middleware around a terminal handler.
+ * The first middleware in the list is the outermost.
+ *
+ * @param middleware - Middleware, outermost first
+ * @param terminal - Handler that performs the actual procedure call
+ * @returns Handler running the full pipeline
+ *
+ * @example
+ * ```typescript
+ * const timing: ComponentMiddleware = async (call, next) => {
+ *   const start = Date.now();
+ *   try {
+ *     return await next(call);
+ *   } finally {
+ *     console.log(`${call.type} (${call.path.join(".")}) took ${Date.now() - start}ms`);
+ *   }
+ * };
+ *
+ * const registry = createClientRegistry(call, { middleware: [timing] });
+ * ```
+ */
+export function composeMiddleware(
+  middleware: readonly ComponentMiddleware[],
+  terminal: (call: ComponentCall) => Promise<ComponentOutput>
+): (call: ComponentCall) => Promise<ComponentOutput> {
+  return middleware.reduceRight<(call: ComponentCall) => Promise<ComponentOutput>>(
+    (next, current) => (call) => current(call, next),
+    terminal
+  );
+}
+
+/**
+ * Compose streaming middleware around a terminal handler.
+ * The first middleware in the list is the outermost.
+ *
+ * @param middleware - Middleware, outermost first
+ * @param terminal - Handler that starts the actual procedure stream
+ * @returns Handler running the full pipeline
+ */
+export function composeStreamingMiddleware(
+  middleware: readonly StreamingComponentMiddleware[],
+  terminal: (call: ComponentCall) => AsyncIterable<ComponentOutput>
+): (call: ComponentCall) => AsyncIterable<ComponentOutput> {
+  return middleware.reduceRight<(call: ComponentCall) => AsyncIterable<ComponentOutput>>(
+    (next, current) => (call) => current(call, next),
+    terminal
+  );
+}
@@ -0,0 +1,514 @@
+/**
+ * Stream Operators
+ *
+ * Operators over component streams. Each returns a new stream and closes
+ * its source when it ends early, whether the consumer returns, throws or
+ * aborts. Time-based operators read their source in the background,
+ * clear their timers when they end and take a scheduler for tests.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type {
+  AbortSignalLike,
+  Scheduler,
+  StreamOperatorOptions,
+  TimeOperatorOptions,
+} from "./types.js";
+import { abortable, onAbort } from "./abort.js";
+import { stableStringify } from "./cache.js";
+import { systemScheduler } from "./scheduler.js";
+
+// =============================================================================
+// Background Driver
+// =============================================================================
+
+/**
+ * Handlers for the events of a driven source.
+ */
+interface DriveHandlers<T> {
+  next(value: T): void;
+  /** The source completed, or the signal aborted */
+  complete(): void;
+  /** Release timers; called once the output stream ends for any reason */
+  dispose(): void;
+}
+
+/**
+ * Read a source in the background and yield what its handlers emit.
+ *
+ * Source errors are rethrown after everything emitted before them. When the
+ * output stream ends early, the source is closed even if a `next()` call
+ * is still pending.
+ */
+async function* drive<T, R>(
+  source: AsyncIterable<T>,
+  signal: AbortSignalLike | undefined,
+  setup: (emit: (value: R) => void) => DriveHandlers<T>
+): AsyncIterable<R> {
+  const queue: R[] = [];
+  let finished = false;
+  let failure: { error: unknown } | undefined;
+  let wake: (() => void) | undefined;
+
+  const notify = (): void => {
+    const resolve = wake;
+    wake = undefined;
+    resolve?.();
+  };
+  const handlers = setup((value) => {
+    queue.push(value);
+    notify();
+  });
+
+  const iterator = abortable(source, signal)[Symbol.asyncIterator]();
+  let stopped = false;
+
+  void (async () => {
+    try {
+      while (!stopped) {
+        const result = await iterator.next();
+        if (result.done || stopped) {
+          break;
+        }
+        handlers.next(result.value);
+      }
+      if (!stopped) {
+        handlers.complete();
+      }
+    } catch (error) {
+      failure = { error };
+    } finally {
+      finished = true;
+      notify();
+    }
+  })();
+
+  try {
+    while (true) {
+      if (queue.length > 0) {
+        yield queue.shift()!;
+        continue;
+      }
+      if (failure) {
+        throw failure.error;
+      }
+      if (finished) {
+        return;
+      }
+      await new Promise<void>((resolve) => (wake = resolve));
+    }
+  } finally {
+    stopped = true;
+    handlers.dispose();
+    if (!finished) {
+      // Close the source; a pending next() settles first
+      void Promise.resolve(iterator.return?.()).catch(() => {});
+    }
+  }
+}
+
+// =============================================================================
+// Transform Operators
+// =============================================================================
+
+/**
+ * Transform each output of a stream.
+ *
+ * @example
+ * ```typescript
+ * mapStream(stream, (output) => ({ ...output, props: { ...output.props, live: true } }));
+ * ```
+ */
+export async function* mapStream<T, R>(
+  stream: AsyncIterable<T>,
+  project: (value: T, index: number) => R | Promise<R>,
+  options: StreamOperatorOptions = {}
+): AsyncIterable<R> {
+  let index = 0;
+  for await (const value of abortable(stream, options.signal)) {
+    yield await project(value, index++);
+  }
+}
+
+/**
+ * Emit only the outputs that pass a predicate.
+ */
+export async function* filterStream<T>(
+  stream: AsyncIterable<T>,
+  predicate: (value: T, index: number) => boolean | Promise<boolean>,
+  options: StreamOperatorOptions = {}
+): AsyncIterable<T> {
+  let index = 0;
+  for await (const value of abortable(stream, options.signal)) {
+    if (await predicate(value, index++)) {
+      yield value;
+    }
+  }
+}
+
+/**
+ * Emit a running accumulation of a stream's outputs.
+ *
+ * @example
+ * ```typescript
+ * // Build a log view from a stream of entries
+ * scanStream(entries, (log, entry) => ({
+ *   ...log,
+ *   children: [...(log.children ?? []), entry],
+ * }), { type: "log", props: {}, children: [] });
+ * ```
+ */
+export async function* scanStream<T, A>(
+  stream: AsyncIterable<T>,
+  reducer: (accumulator: A, value: T, index: number) => A | Promise<A>,
+  seed: A,
+  options: StreamOperatorOptions = {}
+): AsyncIterable<A> {
+  let accumulator = seed;
+  let index = 0;
+  for await (const value of abortable(stream, options.signal)) {
+    accumulator = await reducer(accumulator, value, index++);
+    yield accumulator;
+  }
+}
+
+/**
+ * Skip outputs equal to the previous one. Equality is structural by
+ * default, so a re-sent identical descriptor is dropped.
+ */
+export async function* distinctUntilChanged<T>(
+  stream: AsyncIterable<T>,
+  options: StreamOperatorOptions & { equals?: (previous: T, next: T) => boolean } = {}
+): AsyncIterable<T> {
+  const { equals = structuralEquals, signal } = options;
+  let previous: { value: T } | undefined;
+
+  for await (const value of abortable(stream, signal)) {
+    if (previous && equals(previous.value, value)) {
+      continue;
+    }
+    previous = { value };
+    yield value;
+  }
+}
+
+function structuralEquals(a: unknown, b: unknown): boolean {
+  return a === b || stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Emit a value first, e.g. a loading placeholder, then the stream.
+ */
+export async function* startWith<T>(
+  stream: AsyncIterable<T>,
+  value: T,
+  options: StreamOperatorOptions = {}
+): AsyncIterable<T> {
+  if (options.signal?.aborted) {
+    return;
+  }
+  yield value;
+  yield* abortable(stream, options.signal);
+}
+
+/**
+ * Continue with a replacement when a stream fails: a single output (such as
+ * an error descriptor) or another stream.
+ *
+ * @example
+ * ```typescript
+ * catchError(stream, (error) => errorOutput({ message: String(error), path, type }));
+ * ```
+ */
+export async function* catchError<T>(
+  stream: AsyncIterable<T>,
+  handler: (error: unknown) => T | AsyncIterable<T>,
+  options: StreamOperatorOptions = {}
+): AsyncIterable<T> {
+  const iterator = abortable(stream, options.signal)[Symbol.asyncIterator]();
+  let failure: { error: unknown } | undefined;
+  let finished = false;
+
+  // Only errors from the stream are caught, not ones thrown in by the consumer
+  try {
+    while (!failure) {
+      let result: IteratorResult<T>;
+      try {
+        result = await iterator.next();
+      } catch (error) {
+        failure = { error };
+        break;
+      }
+      if (result.done) {
+        finished = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (!finished && !failure) {
+      void Promise.resolve(iterator.return?.()).catch(() => {});
+    }
+  }
+
+  const replacement = handler(failure.error);
+  if (isAsyncIterable(replacement)) {
+    yield* abortable(replacement, options.signal);
+  } else {
+    yield replacement;
+  }
+}
+
+function isAsyncIterable<T>(value: T | AsyncIterable<T>): value is AsyncIterable<T> {
+  return typeof value === "object" && value !== null && Symbol.asyncIterator in value;
+}
+
+// =============================================================================
+// Completion Operators
+// =============================================================================
+
+const STOP = Symbol("stop");
+
+/**
+ * End a stream when a notifier settles or emits its first value.
+ * Both the stream and an iterable notifier are closed when it ends, even
+ * while the stream is waiting for its next value.
+ */
+export async function* takeUntil<T>(
+  stream: AsyncIterable<T>,
+  notifier: PromiseLike<unknown> | AsyncIterable<unknown>,
+  options: StreamOperatorOptions = {}
+): AsyncIterable<T> {
+  const notifierIterator = isAsyncIterable(notifier)
+    ? notifier[Symbol.asyncIterator]()
+    : undefined;
+
+  // One reaction on the notifier, however many frames are read
+  let stopped = false;
+  let onStop: (() => void) | undefined;
+  const settle = (): void => {
+    stopped = true;
+    onStop?.();
+  };
+  void Promise.resolve(notifierIterator ? notifierIterator.next() : notifier).then(settle, settle);
+  // Aborting stops the stream the same way; the source is read directly so
+  // that it can be closed without waiting on a pending read
+  const removeAbortListener = options.signal ? onAbort(options.signal, settle) : () => {};
+
+  const iterator = stream[Symbol.asyncIterator]();
+  let finished = false;
+
+  try {
+    while (!stopped) {
+      let result: IteratorResult<T> | typeof STOP;
+      try {
+        result = await new Promise<IteratorResult<T> | typeof STOP>((resolve, reject) => {
+          onStop = () => resolve(STOP);
+          iterator.next().then(resolve, reject);
+        });
+      } catch (error) {
+        // The stream threw - it is already closed
+        finished = true;
+        throw error;
+      } finally {
+        onStop = undefined;
+      }
+      if (result === STOP) {
+        return;
+      }
+      if (result.done) {
+        finished = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    removeAbortListener();
+    if (!finished) {
+      void Promise.resolve(iterator.return?.()).catch(() => {});
+    }
+    void Promise.resolve(notifierIterator?.return?.()).catch(() => {});
+  }
+}
+
+// =============================================================================
+// Time Operators
+// =============================================================================
+
+/**
+ * Throttle a component stream to emit at most once per interval.
+ * The last output is emitted when the stream ends, unless cancelled.
+ */
+export async function* throttleStream(
+  stream: AsyncIterable<ComponentOutput>,
+  intervalMs: number,
+  options: TimeOperatorOptions = {}
+): AsyncIterable<ComponentOutput> {
+  const { signal, scheduler = systemScheduler } = options;
+  let lastEmit = -Infinity;
+  let pending: ComponentOutput | null = null;
+
+  for await (const output of abortable(stream, signal)) {
+    const now = scheduler.now();
+
+    if (now - lastEmit >= intervalMs) {
+      yield output;
+      lastEmit = now;
+      pending = null;
+    } else {
+      pending = output;
+    }
+  }
+
+  // Emit final pending output, unless cancelled
+  if (pending && !signal?.aborted) {
+    yield pending;
+  }
+}
+
+/**
+ * Debounce a component stream to emit only after a quiet period.
+ * The last output is emitted when the stream ends, unless cancelled.
+ */
+export function debounceStream(
+  stream: AsyncIterable<ComponentOutput>,
+  waitMs: number,
+  options: TimeOperatorOptions = {}
+): AsyncIterable<ComponentOutput> {
+  const { signal, scheduler = systemScheduler } = options;
+
+  return drive<ComponentOutput, ComponentOutput>(stream, signal, (emit) => {
+    let latest: { value: ComponentOutput } | undefined;
+    let timer: unknown;
+
+    const flush = (): void => {
+      timer = undefined;
+      if (latest) {
+        emit(latest.value);
+        latest = undefined;
+      }
+    };
+    const clear = (): void => {
+      if (timer !== undefined) {
+        scheduler.clearTimeout(timer);
+        timer = undefined;
+      }
+    };
+
+    return {
+      next(value) {
+        latest = { value };
+        clear();
+        timer = scheduler.setTimeout(flush, waitMs);
+      },
+      complete() {
+        clear();
+        if (!signal?.aborted) {
+          flush();
+        }
+      },
+      dispose: clear,
+    };
+  });
+}
+
+/**
+ * Emit the latest output once per interval, if a new one arrived since the
+ * previous sample. The last unsampled output is emitted when the stream
+ * ends, unless cancelled.
+ */
+export function sampleStream<T>(
+  stream: AsyncIterable<T>,
+  intervalMs: number,
+  options: TimeOperatorOptions = {}
+): AsyncIterable<T> {
+  const { signal, scheduler = systemScheduler } = options;
+
+  return drive<T, T>(stream, signal, (emit) => {
+    let latest: { value: T } | undefined;
+    const flush = (): void => {
+      if (latest) {
+        emit(latest.value);
+        latest = undefined;
+      }
+    };
+    const stopInterval = every(scheduler, intervalMs, flush);
+
+    return {
+      next(value) {
+        latest = { value };
+      },
+      complete() {
+        stopInterval();
+        if (!signal?.aborted) {
+          flush();
+        }
+      },
+      dispose: stopInterval,
+    };
+  });
+}
+
+/**
+ * Collect outputs into arrays, emitted once per window. Empty windows are
+ * skipped, and the outputs collected when the stream ends are emitted
+ * unless cancelled.
+ *
+ * @example
+ * ```typescript
+ * // Apply a burst of row updates as one batch
+ * for await (const rows of bufferTime(rowUpdates, 100)) {
+ *   table.apply(rows);
+ * }
+ * ```
+ */
+export function bufferTime<T>(
+  stream: AsyncIterable<T>,
+  windowMs: number,
+  options: TimeOperatorOptions = {}
+): AsyncIterable<T[]> {
+  const { signal, scheduler = systemScheduler } = options;
+
+  return drive<T, T[]>(stream, signal, (emit) => {
+    let buffer: T[] = [];
+    const flush = (): void => {
+      if (buffer.length > 0) {
+        emit(buffer);
+        buffer = [];
+      }
+    };
+    const stopInterval = every(scheduler, windowMs, flush);
+
+    return {
+      next(value) {
+        buffer.push(value);
+      },
+      complete() {
+        stopInterval();
+        if (!signal?.aborted) {
+          flush();
+        }
+      },
+      dispose: stopInterval,
+    };
+  });
+}
+
+/**
+ * Run a callback every interval, on a fixed schedule. Returns a function
+ * that stops it.
+ */
+function every(scheduler: Scheduler, intervalMs: number, callback: () => void): () => void {
+  const period = Math.max(1, intervalMs);
+  let due = scheduler.now() + period;
+  let handle: unknown;
+
+  const tick = (): void => {
+    due += period;
+    handle = scheduler.setTimeout(tick, Math.max(0, due - scheduler.now()));
+    callback();
+  };
+  handle = scheduler.setTimeout(tick, period);
+
+  return () => scheduler.clearTimeout(handle);
+}
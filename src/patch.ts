@@ -0,0 +1,327 @@
+/**
+ * Descriptor Patches
+ *
+ * Diffs descriptor trees into keyed, path-addressed patches and applies
+ * them, so a stream of full trees can be sent as one snapshot followed by
+ * only what changed.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type {
+  DescriptorFrame,
+  DescriptorPatch,
+  DescriptorPath,
+  StreamOperatorOptions,
+} from "./types.js";
+import { abortable } from "./abort.js";
+import { stableStringify } from "./cache.js";
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Compute the patches that turn one descriptor tree into another.
+ *
+ * Nodes match when their type and key agree; anything else is replaced.
+ * Props are diffed shallowly, comparing values by content. Children are
+ * matched by `key`, unkeyed children by their order among unkeyed siblings,
+ * and reconciled with remove, move and insert patches. Subtrees that are
+ * the same object in both trees are skipped without comparing.
+ *
+ * @param prev - Tree the patches apply to
+ * @param next - Tree the patches produce
+ * @returns Patches to apply in order; empty when the trees are equal
+ *
+ * @example
+ * ```typescript
+ * diffDescriptor(
+ *   { type: "row", props: { price: 10 }, key: "AAPL" },
+ *   { type: "row", props: { price: 11 }, key: "AAPL" }
+ * );
+ * // → [{ op: "set-props", path: [], set: { price: 11 }, remove: [] }]
+ * ```
+ */
+export function diffDescriptor(prev: ComponentOutput, next: ComponentOutput): DescriptorPatch[] {
+  const patches: DescriptorPatch[] = [];
+  diffNode(prev, next, [], patches);
+  return patches;
+}
+
+function diffNode(
+  prev: ComponentOutput,
+  next: ComponentOutput,
+  path: DescriptorPath,
+  patches: DescriptorPatch[]
+): void {
+  if (prev === next) {
+    return;
+  }
+  if (
+    prev.type !== next.type ||
+    prev.key !== next.key ||
+    (prev.children === undefined) !== (next.children === undefined)
+  ) {
+    patches.push({ op: "replace", path, node: next });
+    return;
+  }
+
+  diffProps(prev.props, next.props, path, patches);
+  diffChildren(prev.children ?? [], next.children ?? [], path, patches);
+}
+
+function diffProps(
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+  path: DescriptorPath,
+  patches: DescriptorPatch[]
+): void {
+  if (prev === next) {
+    return;
+  }
+
+  const set: Record<string, unknown> = {};
+  let changed = false;
+  for (const [name, value] of Object.entries(next)) {
+    if (!Object.hasOwn(prev, name) || !sameValue(prev[name], value)) {
+      set[name] = value;
+      changed = true;
+    }
+  }
+  const remove = Object.keys(prev).filter((name) => !Object.hasOwn(next, name));
+
+  if (changed || remove.length > 0) {
+    patches.push({ op: "set-props", path, set, remove });
+  }
+}
+
+function diffChildren(
+  prev: readonly ComponentOutput[],
+  next: readonly ComponentOutput[],
+  path: DescriptorPath,
+  patches: DescriptorPatch[]
+): void {
+  const prevKeys = childKeys(prev);
+  const nextKeys = childKeys(next);
+  const nextIndex = new Map(nextKeys.map((key, index) => [key, index]));
+
+  // Remove children that are gone, from the end so indexes stay valid
+  const working = prev.map((node, index) => ({ key: prevKeys[index]!, node }));
+  for (let index = working.length - 1; index >= 0; index--) {
+    if (!nextIndex.has(working[index]!.key)) {
+      working.splice(index, 1);
+      patches.push({ op: "remove", path, index });
+    }
+  }
+
+  // Fill each position in order; positions before `index` are final
+  for (let index = 0; index < next.length; index++) {
+    const key = nextKeys[index]!;
+    const current = working[index];
+
+    if (current?.key !== key) {
+      const from = working.findIndex((entry, at) => at > index && entry.key === key);
+
+      if (from === -1) {
+        working.splice(index, 0, { key, node: next[index]! });
+        patches.push({ op: "insert", path, index, node: next[index]! });
+        continue;
+      }
+
+      if (current && working[index + 1]?.key === key) {
+        // The current child is the one out of place: move it ahead instead
+        const to = Math.min(nextIndex.get(current.key)!, working.length - 1);
+        working.splice(to, 0, ...working.splice(index, 1));
+        patches.push({ op: "move", path, from: index, to });
+      } else {
+        working.splice(index, 0, ...working.splice(from, 1));
+        patches.push({ op: "move", path, from, to: index });
+      }
+    }
+
+    diffNode(working[index]!.node, next[index]!, [...path, index], patches);
+  }
+}
+
+/**
+ * Match keys of a child list: `key` when set, else the order among
+ * unkeyed siblings. Repeated keys are told apart by occurrence.
+ */
+function childKeys(children: readonly ComponentOutput[]): string[] {
+  const seen = new Map<string, number>();
+  let unkeyed = 0;
+
+  return children.map((child) => {
+    const base = child.key !== undefined ? `k:${String(child.key)}` : `i:${unkeyed++}`;
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    return occurrence === 0 ? base : `${base}#${occurrence}`;
+  });
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object") {
+    return false;
+  }
+  return stableStringify(a) === stableStringify(b);
+}
+
+// =============================================================================
+// Apply
+// =============================================================================
+
+/**
+ * Apply patches to a descriptor tree.
+ *
+ * The input is not modified: changed nodes and their ancestors are copied,
+ * and every other subtree is shared with the input.
+ *
+ * @param tree - Tree to patch
+ * @param patches - Patches from diffDescriptor, applied in order
+ * @returns The patched tree
+ * @throws Error when a patch addresses a node or index that doesn't exist
+ */
+export function applyPatch(
+  tree: ComponentOutput,
+  patches: readonly DescriptorPatch[]
+): ComponentOutput {
+  return patches.reduce(applyOne, tree);
+}
+
+function applyOne(tree: ComponentOutput, patch: DescriptorPatch): ComponentOutput {
+  return updateAt(tree, patch.path, 0, (node) => {
+    switch (patch.op) {
+      case "replace":
+        return patch.node;
+
+      case "set-props": {
+        const props = { ...node.props, ...patch.set };
+        for (const name of patch.remove) {
+          delete props[name];
+        }
+        return { ...node, props };
+      }
+
+      case "insert": {
+        const children = [...(node.children ?? [])];
+        checkIndex(patch, patch.index, children.length);
+        children.splice(patch.index, 0, patch.node);
+        return { ...node, children };
+      }
+
+      case "remove": {
+        const children = [...(node.children ?? [])];
+        checkIndex(patch, patch.index, children.length - 1);
+        children.splice(patch.index, 1);
+        return { ...node, children };
+      }
+
+      case "move": {
+        const children = [...(node.children ?? [])];
+        checkIndex(patch, patch.from, children.length - 1);
+        checkIndex(patch, patch.to, children.length - 1);
+        children.splice(patch.to, 0, ...children.splice(patch.from, 1));
+        return { ...node, children };
+      }
+    }
+  });
+}
+
+/**
+ * Copy the nodes along a path, replacing the node at its end.
+ */
+function updateAt(
+  node: ComponentOutput,
+  path: DescriptorPath,
+  depth: number,
+  update: (node: ComponentOutput) => ComponentOutput
+): ComponentOutput {
+  if (depth === path.length) {
+    return update(node);
+  }
+
+  const index = path[depth]!;
+  const child = node.children?.[index];
+  if (!child) {
+    throw new Error(`Invalid patch path [${path.join(", ")}]: no child ${index} at depth ${depth}`);
+  }
+
+  const children = [...node.children!];
+  children[index] = updateAt(child, path, depth + 1, update);
+  return { ...node, children };
+}
+
+function checkIndex(patch: DescriptorPatch, index: number, max: number): void {
+  if (!Number.isInteger(index) || index < 0 || index > max) {
+    throw new Error(
+      `Invalid ${patch.op} patch at [${patch.path.join(", ")}]: index ${index} is out of range`
+    );
+  }
+}
+
+// =============================================================================
+// Patch Streams
+// =============================================================================
+
+/**
+ * Convert a stream of full trees into a snapshot followed by patches.
+ * Frames that change nothing are skipped.
+ *
+ * @param stream - Stream of full descriptor trees
+ * @param options - Stream operator options
+ * @returns Snapshot frame, then patch frames
+ *
+ * @example
+ * ```typescript
+ * for await (const frame of diffStream(renderTreeStream(dual, data, size))) {
+ *   socket.send(JSON.stringify(frame));
+ * }
+ * ```
+ */
+export async function* diffStream(
+  stream: AsyncIterable<ComponentOutput>,
+  options: StreamOperatorOptions = {}
+): AsyncIterable<DescriptorFrame> {
+  let prev: ComponentOutput | undefined;
+
+  for await (const tree of abortable(stream, options.signal)) {
+    if (!prev) {
+      yield { kind: "snapshot", tree };
+    } else {
+      const patches = diffDescriptor(prev, tree);
+      if (patches.length > 0) {
+        yield { kind: "patch", patches };
+      }
+    }
+    prev = tree;
+  }
+}
+
+/**
+ * Rebuild full trees from a snapshot-then-patches stream.
+ *
+ * @param frames - Frames from diffStream
+ * @param options - Stream operator options
+ * @returns The full tree after each frame
+ * @throws Error when a patch frame arrives before any snapshot
+ */
+export async function* patchStream(
+  frames: AsyncIterable<DescriptorFrame>,
+  options: StreamOperatorOptions = {}
+): AsyncIterable<ComponentOutput> {
+  let tree: ComponentOutput | undefined;
+
+  for await (const frame of abortable(frames, options.signal)) {
+    if (frame.kind === "snapshot") {
+      tree = frame.tree;
+    } else if (tree) {
+      tree = applyPatch(tree, frame.patches);
+    } else {
+      throw new Error("Received a patch frame before a snapshot");
+    }
+    yield tree;
+  }
+}
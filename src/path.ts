@@ -0,0 +1,28 @@
+/**
+ * Render Paths
+ *
+ * Helpers for the dotted render paths carried by RenderContext.path
+ * (e.g. "root.children[2].children[0]").
+ */
+
+/**
+ * Build the path of a child node rendered by renderTree.
+ */
+export function childPath(parentPath: string, index: number): string {
+  return `${parentPath}.children[${index}]`;
+}
+
+/**
+ * Check whether a render path is at or below a path prefix.
+ * "root.children[1]" contains "root.children[1].x" but not "root.children[10]".
+ */
+export function isPathWithin(path: string, prefix: string): boolean {
+  if (path === prefix) {
+    return true;
+  }
+  if (!path.startsWith(prefix)) {
+    return false;
+  }
+  const next = path.charAt(prefix.length);
+  return next === "." || next === "[";
+}
@@ -0,0 +1,287 @@
+/**
+ * Stream Recording & Replay
+ *
+ * Records component streams as NDJSON, with the time of every frame, and
+ * replays recordings as a StreamingProcedureCaller with their original,
+ * scaled or no timing. Recordings are plain text, so writing them to a file
+ * or reading them back is left to the caller.
+ */
+
+import type { CallOptions, Scheduler } from "./types.js";
+import type { StreamingProcedureCaller } from "./streaming.js";
+import { stableHash } from "./cache.js";
+import { sleep } from "./resilience.js";
+import { systemScheduler } from "./scheduler.js";
+import { getErrorMessage } from "./boundary.js";
+
+// =============================================================================
+// Recording Format
+// =============================================================================
+
+/**
+ * One line of an NDJSON recording. Every line carries the id of the stream
+ * it belongs to, so several streams can share a recording.
+ */
+export type RecordingLine =
+  | { kind: "start"; id: number; path: string[]; input: unknown; startedAt: string }
+  | { kind: "frame"; id: number; t: number; frame: unknown }
+  | { kind: "end"; id: number; t: number }
+  | { kind: "error"; id: number; t: number; name: string; message: string };
+
+/**
+ * A recorded stream. Times are milliseconds since the stream was opened.
+ */
+export interface Recording {
+  id: number;
+  path: string[];
+  input: unknown;
+  startedAt: string;
+  frames: { t: number; frame: unknown }[];
+  /** How the stream ended; undefined when the recording was cut off */
+  end: { t: number; error?: { name: string; message: string } } | undefined;
+}
+
+/**
+ * Receives NDJSON lines, each ending in a newline.
+ */
+export type RecordingSink = (line: string) => void;
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Record a stream while passing its frames through.
+ *
+ * @param stream - Stream to record
+ * @param sink - Receives the NDJSON lines
+ * @param options - Stream id, the procedure path and input to record, and the clock
+ * @returns The same frames
+ */
+export async function* recordStream<T>(
+  stream: AsyncIterable<T>,
+  sink: RecordingSink,
+  options: { id?: number; path?: string[]; input?: unknown; scheduler?: Scheduler } = {}
+): AsyncIterable<T> {
+  const { id = 1, path = [], input = null, scheduler = systemScheduler } = options;
+  const start = scheduler.now();
+  const elapsed = () => scheduler.now() - start;
+  const write = (line: RecordingLine) => sink(`${JSON.stringify(line)}\n`);
+
+  write({ kind: "start", id, path, input, startedAt: new Date(start).toISOString() });
+  try {
+    for await (const frame of stream) {
+      write({ kind: "frame", id, t: elapsed(), frame });
+      yield frame;
+    }
+    write({ kind: "end", id, t: elapsed() });
+  } catch (error) {
+    const name = error instanceof Error ? error.name : "Error";
+    write({ kind: "error", id, t: elapsed(), name, message: getErrorMessage(error) });
+    throw error;
+  }
+}
+
+/**
+ * Wrap a streaming caller so every stream it opens is recorded.
+ *
+ * @param caller - Streaming procedure caller to record
+ * @param sink - Receives the NDJSON lines of all streams
+ * @param options - Clock for frame times (default: the real clock)
+ * @returns Recording caller
+ *
+ * @example
+ * ```typescript
+ * const out = fs.createWriteStream("session.ndjson");
+ * const streaming = createStreamingRegistry(recordingCaller(stream, (line) => out.write(line)));
+ * ```
+ */
+export function recordingCaller(
+  caller: StreamingProcedureCaller,
+  sink: RecordingSink,
+  options: { scheduler?: Scheduler } = {}
+): StreamingProcedureCaller {
+  let nextId = 1;
+
+  return <TResult>(path: string[], input: unknown, callOptions?: CallOptions) =>
+    recordStream(caller<TResult>(path, input, callOptions), sink, {
+      id: nextId++,
+      path,
+      input,
+      ...options,
+    });
+}
+
+/**
+ * Parse an NDJSON recording into its streams, in the order they started.
+ *
+ * @throws Error when a line is not valid JSON or belongs to no stream
+ */
+export function parseRecording(ndjson: string): Recording[] {
+  const recordings = new Map<number, Recording>();
+
+  ndjson.split("\n").forEach((text, index) => {
+    if (text.trim() === "") {
+      return;
+    }
+
+    let line: RecordingLine;
+    try {
+      line = JSON.parse(text) as RecordingLine;
+    } catch {
+      throw new Error(`Invalid recording line ${index + 1}: not JSON`);
+    }
+
+    if (line.kind === "start") {
+      const { id, path, input, startedAt } = line;
+      recordings.set(id, { id, path, input, startedAt, frames: [], end: undefined });
+      return;
+    }
+
+    const recording = recordings.get(line.id);
+    if (!recording) {
+      throw new Error(`Invalid recording line ${index + 1}: stream ${line.id} was not started`);
+    }
+    if (line.kind === "frame") {
+      recording.frames.push({ t: line.t, frame: line.frame });
+    } else if (line.kind === "end") {
+      recording.end = { t: line.t };
+    } else {
+      recording.end = { t: line.t, error: { name: line.name, message: line.message } };
+    }
+  });
+
+  return [...recordings.values()];
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+/**
+ * Options for replaying recordings.
+ */
+export interface ReplayOptions {
+  /**
+   * Frame timing: "original" waits as recorded, "instant" doesn't wait,
+   * and `{ speed }` divides the recorded delays (default: "original")
+   */
+  timing?: "original" | "instant" | { speed: number };
+  /** Choose whether a recording answers a call (default: same path and input) */
+  match?: (recording: Recording, path: string[], input: unknown) => boolean;
+  /** Clock and timers to replay with, e.g. a virtual scheduler in tests (default: the real clock) */
+  scheduler?: Scheduler;
+}
+
+/**
+ * Create a streaming caller that replays recorded streams.
+ *
+ * Each call replays the next unused recording that matches it, emitting
+ * the recorded frames and then ending, or failing, as the original did, at
+ * the recorded time of its end. Aborting the call's signal ends the replay.
+ * With a virtual scheduler shared with time operators such as
+ * debounceStream, replays in tests are deterministic.
+ *
+ * @param recordings - NDJSON text or parsed recordings
+ * @param options - Timing and matching
+ * @returns Replaying caller
+ * @throws Error from the returned stream when no unused recording matches a call
+ *
+ * @example
+ * ```typescript
+ * const replay = createReplayCaller(fs.readFileSync("session.ndjson", "utf8"), {
+ *   timing: { speed: 10 },
+ * });
+ * const streaming = createStreamingRegistry(replay);
+ * ```
+ */
+export function createReplayCaller(
+  recordings: string | readonly Recording[],
+  options: ReplayOptions = {}
+): StreamingProcedureCaller {
+  const { timing = "original", match = matchesCall, scheduler = systemScheduler } = options;
+  const unused = typeof recordings === "string" ? parseRecording(recordings) : [...recordings];
+
+  const delayOf = (ms: number): number => {
+    if (timing === "instant") {
+      return 0;
+    }
+    return timing === "original" ? ms : ms / timing.speed;
+  };
+
+  return <TResult>(path: string[], input: unknown, callOptions?: CallOptions) => {
+    const index = unused.findIndex((recording) => match(recording, path, input));
+    if (index === -1) {
+      return fail<TResult>(new Error(`No recording matches a stream of ${path.join(".")}`));
+    }
+    const [recording] = unused.splice(index, 1);
+    return replay<TResult>(recording!, delayOf, scheduler, callOptions?.signal);
+  };
+}
+
+/**
+ * Emit the frames of a recording at their recorded times.
+ */
+async function* replay<T>(
+  recording: Recording,
+  delayOf: (ms: number) => number,
+  scheduler: Scheduler,
+  signal: CallOptions["signal"]
+): AsyncIterable<T> {
+  const start = scheduler.now();
+
+  // Wait until a recorded time, relative to the start of the replay
+  const waitUntil = async (t: number): Promise<boolean> => {
+    const delay = delayOf(t) - (scheduler.now() - start);
+    try {
+      if (delay > 0) {
+        await sleep(delay, signal, scheduler);
+      }
+    } catch {
+      return false;
+    }
+    return !signal?.aborted;
+  };
+
+  for (const { t, frame } of recording.frames) {
+    if (!(await waitUntil(t))) {
+      return;
+    }
+    yield frame as T;
+  }
+
+  // End, or fail, when the original stream did
+  const { end } = recording;
+  if (!end || !(await waitUntil(end.t))) {
+    return;
+  }
+  if (end.error) {
+    const error = new Error(end.error.message);
+    error.name = end.error.name;
+    throw error;
+  }
+}
+
+/**
+ * A stream that fails when read.
+ */
+async function* fail<T>(error: Error): AsyncIterable<T> {
+  throw error;
+}
+
+/**
+ * Default match: the same procedure path and an equal input.
+ */
+function matchesCall(recording: Recording, path: string[], input: unknown): boolean {
+  return (
+    recording.path.join(".") === path.join(".") &&
+    stableHash(recording.input) === stableHash(toJson(input))
+  );
+}
+
+/**
+ * Round-trip a value through JSON, as it is stored in a recording.
+ */
+function toJson(value: unknown): unknown {
+  return value === undefined ? null : (JSON.parse(JSON.stringify(value)) as unknown);
+}
@@ -5,30 +5,57 @@
  * This file is referenced by package.json's client.procedures field.
  */
 
-import { createProcedure, registerProcedures } from "@mark1russell7/client";
-
-// =============================================================================
-// Minimal Schema Helpers (Zod-like interface for procedure system)
-// =============================================================================
-
-interface ZodErrorLike {
-  message: string;
-  errors: Array<{ path: (string | number)[]; message: string }>;
-}
-
-interface ZodLikeSchema<T> {
-  parse(data: unknown): T;
-  safeParse(data: unknown): { success: true; data: T } | { success: false; error: ZodErrorLike };
-  _output: T;
-}
-
-function schema<T>(): ZodLikeSchema<T> {
-  return {
-    parse: (data: unknown) => data as T,
-    safeParse: (data: unknown) => ({ success: true as const, data: data as T }),
-    _output: undefined as unknown as T,
-  };
-}
+import {
+  call,
+  stream,
+  createProcedure,
+  registerProcedures,
+  PROCEDURE_REGISTRY,
+} from "@mark1russell7/client";
+import type { ComponentOutput, Size } from "@mark1russell7/client/components";
+import type {
+  ClientRegistryOptions,
+  ComponentMetrics,
+  DescriptorFrame,
+  DescriptorPatch,
+  HistogramSnapshot,
+  MetricsSnapshot,
+} from "./types.js";
+import { listComponentProcedures, type ComponentListing, type ComponentsList } from "./discovery.js";
+import { createClientRegistry } from "./registry.js";
+import {
+  createBatchHandler,
+  type BatchItem,
+  type BatchItemResult,
+  type BatchRequest,
+} from "./batch.js";
+import { createDualRegistry } from "./streaming.js";
+import { renderTree, renderTreeStream } from "./tree.js";
+import { diffStream } from "./patch.js";
+import {
+  checkBridgeHealth,
+  type BridgeHealth,
+  type HealthCanary,
+  type HealthCheckResult,
+  type HealthOptions,
+  type HealthStatus,
+  type PathHealth,
+} from "./health.js";
+import { bridgeMetrics } from "./metrics.js";
+import {
+  array,
+  boolean,
+  componentOutputSchema,
+  literal,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  union,
+  unknown,
+  voidInput,
+} from "./schema.js";
 
 // =============================================================================
 // Types
@@ -40,18 +67,199 @@ interface BridgeInfo {
   description: string;
 }
 
-interface HealthCheck {
-  status: string;
-  timestamp: string;
+interface ComponentsInput {
+  /** Only list components in this dotted namespace */
+  namespace?: string;
+}
+
+interface MetricsInput {
+  /** Output format (default: "json") */
+  format?: "json" | "prometheus";
+}
+
+interface RenderInput {
+  /** Root of the data tree to render */
+  data: unknown;
+  /** Size available to the root */
+  size: Size;
+  /** Component namespace, or a fallback chain of namespaces */
+  namespace?: string | string[];
+  /** Maximum number of sibling renders in flight at once */
+  concurrency?: number;
 }
 
 // =============================================================================
 // Schemas
 // =============================================================================
 
-const voidSchema = schema<void>();
-const bridgeInfoSchema = schema<BridgeInfo>();
-const healthCheckSchema = schema<HealthCheck>();
+const voidSchema = voidInput();
+
+const bridgeInfoSchema = object<BridgeInfo>({
+  name: string(),
+  version: string(),
+  description: string(),
+});
+
+const sizeSchema = object<Size>({
+  width: number(),
+  height: number(),
+});
+
+const healthInputSchema = optional(
+  object<HealthOptions>(
+    {
+      namespaces: optional(array(string({ nonEmpty: true }))),
+      canaries: optional(
+        array(
+          object<HealthCanary>({
+            type: string({ nonEmpty: true }),
+            streaming: optional(boolean()),
+            data: unknown(),
+            size: optional(sizeSchema),
+            namespace: optional(string()),
+          })
+        )
+      ),
+      timeoutMs: optional(number()),
+    },
+    { strict: true }
+  )
+);
+
+const healthStatusSchema = literal<HealthStatus>("healthy", "degraded", "unhealthy");
+
+const healthCheckResultSchema = object<HealthCheckResult>({
+  name: string({ nonEmpty: true }),
+  status: literal("pass", "fail"),
+  message: optional(string()),
+  latencyMs: optional(number()),
+});
+
+const pathHealthSchema = object<PathHealth>({
+  status: healthStatusSchema,
+  checks: array(healthCheckResultSchema),
+});
+
+const bridgeHealthSchema = object<BridgeHealth>({
+  status: healthStatusSchema,
+  timestamp: string(),
+  checks: array(healthCheckResultSchema),
+  sync: pathHealthSchema,
+  streaming: pathHealthSchema,
+});
+
+const componentsInputSchema = optional(
+  object<ComponentsInput>({ namespace: optional(string()) }, { strict: true })
+);
+
+const componentListingSchema = object<ComponentListing>({
+  type: string({ nonEmpty: true }),
+  name: string({ nonEmpty: true }),
+  version: optional(string()),
+  namespace: string(),
+  path: array(string()),
+  streaming: boolean(),
+  meta: record(unknown()),
+});
+
+const componentsListSchema = object<ComponentsList>({
+  components: array(componentListingSchema),
+});
+
+const metricsInputSchema = optional(
+  object<MetricsInput>(
+    { format: optional(literal("json", "prometheus")) },
+    { strict: true }
+  )
+);
+
+const histogramSchema = object<HistogramSnapshot>({
+  buckets: array(object<{ le: number; count: number }>({ le: number(), count: number() })),
+  sum: number(),
+  count: number(),
+});
+
+const componentMetricsSchema = object<ComponentMetrics>({
+  calls: number(),
+  errors: number(),
+  timeouts: number(),
+  cacheHits: number(),
+  cacheMisses: number(),
+  latency: histogramSchema,
+  streams: number(),
+  streamErrors: number(),
+  frames: number(),
+  droppedFrames: number(),
+  streamDuration: histogramSchema,
+});
+
+const metricsOutputSchema = union<MetricsSnapshot | string>(
+  object<MetricsSnapshot>({
+    timestamp: string(),
+    components: record(componentMetricsSchema),
+  }),
+  string()
+);
+
+const renderInputSchema = object<RenderInput>({
+  data: unknown(),
+  size: sizeSchema,
+  namespace: optional(union<string | string[]>(string(), array(string()))),
+  concurrency: optional(number()),
+});
+
+const batchRequestSchema = object<BatchRequest>(
+  {
+    items: array(
+      object<BatchItem>({ path: array(string({ nonEmpty: true })), input: unknown() })
+    ),
+  },
+  { strict: true }
+);
+
+const batchResultsSchema = array(
+  union<BatchItemResult>(
+    object<BatchItemResult>({ ok: literal(true), output: unknown() }),
+    object<BatchItemResult>({
+      ok: literal(false),
+      error: object<{ message: string }>({ message: string() }),
+    })
+  )
+);
+
+const descriptorPathSchema = array(number());
+
+const descriptorPatchSchema = union<DescriptorPatch>(
+  object<DescriptorPatch>({
+    op: literal("replace"),
+    path: descriptorPathSchema,
+    node: componentOutputSchema,
+  }),
+  object<DescriptorPatch>({
+    op: literal("set-props"),
+    path: descriptorPathSchema,
+    set: record(unknown()),
+    remove: array(string()),
+  }),
+  object<DescriptorPatch>({
+    op: literal("insert"),
+    path: descriptorPathSchema,
+    index: number(),
+    node: componentOutputSchema,
+  }),
+  object<DescriptorPatch>({ op: literal("remove"), path: descriptorPathSchema, index: number() }),
+  object<DescriptorPatch>({
+    op: literal("move"),
+    path: descriptorPathSchema,
+    from: number(),
+    to: number(),
+  })
+);
+
+const descriptorFrameSchema = union<DescriptorFrame>(
+  object<DescriptorFrame>({ kind: literal("snapshot"), tree: componentOutputSchema }),
+  object<DescriptorFrame>({ kind: literal("patch"), patches: array(descriptorPatchSchema) })
+);
 
 // =============================================================================
 // Bridge Procedures
@@ -73,28 +281,176 @@ const infoProcedure = createProcedure()
   .build();
 
 /**
- * Health check for the bridge.
+ * Health check for the bridge: its own procedures and component procedures
+ * are registered, namespace resolution and optional canary renders, with
+ * sync and streaming reported separately.
  */
 const healthProcedure = createProcedure()
   .path(["splay", "bridge", "health"])
-  .input(voidSchema)
-  .output(healthCheckSchema)
+  .input(healthInputSchema)
+  .output(bridgeHealthSchema)
   .meta({ description: "Health check for client-splay bridge" })
-  .handler(() => ({
-    status: "healthy",
-    timestamp: new Date().toISOString(),
+  .handler((input: HealthOptions | undefined) =>
+    checkBridgeHealth(
+      {
+        call,
+        stream,
+        procedures: () => PROCEDURE_REGISTRY.getAll(),
+        required: bridgeProcedures.map((procedure) => procedure.path),
+      },
+      input
+    )
+  )
+  .build();
+
+/**
+ * List component procedures registered under components.*.
+ */
+const componentsProcedure = createProcedure()
+  .path(["splay", "bridge", "components"])
+  .input(componentsInputSchema)
+  .output(componentsListSchema)
+  .meta({ description: "List component procedures with namespace, streaming flag and metadata" })
+  .handler((input: ComponentsInput | undefined) => ({
+    components: listComponentProcedures(PROCEDURE_REGISTRY.getAll(), input?.namespace),
   }))
   .build();
 
+/**
+ * Render metrics recorded by the bridge, as JSON or Prometheus text.
+ */
+const metricsProcedure = createProcedure()
+  .path(["splay", "bridge", "metrics"])
+  .input(metricsInputSchema)
+  .output(metricsOutputSchema)
+  .meta({ description: "Per-component call, cache and stream metrics" })
+  .handler((input: MetricsInput | undefined) =>
+    input?.format === "prometheus" ? bridgeMetrics.toPrometheus() : bridgeMetrics.snapshot()
+  )
+  .build();
+
+/**
+ * Run the component calls of a batch from createBatchingCaller.
+ */
+const batchProcedure = createProcedure()
+  .path(["components", "__batch__"])
+  .input(batchRequestSchema)
+  .output(batchResultsSchema)
+  .meta({ description: "Run a batch of component calls, reporting each result separately" })
+  .handler(createBatchHandler(call))
+  .build();
+
+// =============================================================================
+// Render Procedures
+// =============================================================================
+
+/**
+ * Registry options for a render request.
+ */
+function renderRegistryOptions(input: RenderInput): ClientRegistryOptions {
+  return input.namespace !== undefined ? { namespace: input.namespace } : {};
+}
+
+/**
+ * Tree options for a render request.
+ */
+function renderTreeOptions(input: RenderInput): { concurrency?: number } {
+  return input.concurrency !== undefined ? { concurrency: input.concurrency } : {};
+}
+
+/**
+ * Render a data tree server-side and return the complete descriptor.
+ */
+const renderProcedure = createProcedure()
+  .path(["splay", "render"])
+  .input(renderInputSchema)
+  .output(componentOutputSchema)
+  .meta({ description: "Render a data tree to a complete component descriptor" })
+  .handler((input: RenderInput): Promise<ComponentOutput> => {
+    const registry = createClientRegistry(call, renderRegistryOptions(input));
+    return renderTree(registry, input.data, input.size, renderTreeOptions(input));
+  })
+  .build();
+
+/**
+ * Render a data tree as a live tree with a dual registry built from the
+ * streaming flags of the registered component procedures.
+ */
+function renderLiveTree(input: RenderInput): AsyncIterable<ComponentOutput> {
+  const options = renderRegistryOptions(input);
+  const namespaces =
+    input.namespace === undefined
+      ? [""]
+      : typeof input.namespace === "string"
+        ? [input.namespace]
+        : input.namespace;
+
+  // Streaming component types, from the procedures' streaming flag
+  const streamingTypes = new Set(
+    listComponentProcedures(PROCEDURE_REGISTRY.getAll())
+      .filter((listing) => listing.streaming && namespaces.includes(listing.namespace))
+      .map((listing) => listing.type)
+  );
+
+  const dual = createDualRegistry(call, stream, (type) => streamingTypes.has(type), options);
+  return renderTreeStream(dual, input.data, input.size, renderTreeOptions(input));
+}
+
+/**
+ * Render a data tree server-side, emitting the complete descriptor again
+ * whenever a streaming component produces a new frame.
+ */
+const renderStreamProcedure = createProcedure()
+  .path(["splay", "render", "stream"])
+  .input(renderInputSchema)
+  .output(componentOutputSchema)
+  .meta({
+    description: "Render a data tree, streaming updated descriptors as components change",
+    streaming: true,
+  })
+  .handler(async function* (input: RenderInput): AsyncIterable<ComponentOutput> {
+    yield* renderLiveTree(input);
+  })
+  .build();
+
+/**
+ * Render a data tree server-side, emitting a snapshot of the descriptor
+ * and then only the patches to it as components change.
+ */
+const renderPatchesProcedure = createProcedure()
+  .path(["splay", "render", "patches"])
+  .input(renderInputSchema)
+  .output(descriptorFrameSchema)
+  .meta({
+    description: "Render a data tree, streaming a snapshot and then descriptor patches",
+    streaming: true,
+  })
+  .handler(async function* (input: RenderInput): AsyncIterable<DescriptorFrame> {
+    yield* diffStream(renderLiveTree(input));
+  })
+  .build();
+
 // =============================================================================
 // Registration
 // =============================================================================
 
+/** All client-splay procedures (also the ones the health check requires) */
+const bridgeProcedures = [
+  infoProcedure,
+  healthProcedure,
+  componentsProcedure,
+  metricsProcedure,
+  batchProcedure,
+  renderProcedure,
+  renderStreamProcedure,
+  renderPatchesProcedure,
+];
+
 /**
  * Register all client-splay procedures.
  */
 export function registerBridge(): void {
-  registerProcedures([infoProcedure, healthProcedure]);
+  registerProcedures(bridgeProcedures);
 }
 
 // Auto-register when this module is loaded
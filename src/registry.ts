@@ -9,10 +9,31 @@
 import type { ComponentOutput, Size } from "@mark1russell7/client/components";
 import type {
   Registry,
+  ClientRegistry,
   ComponentRenderer,
   RenderContext,
   ClientRegistryOptions,
+  ComponentCall,
+  RenderContextOptions,
+  RenderErrorInfo,
+  CallOptions,
+  TypeResolver,
+  LayoutSpec,
 } from "./types.js";
+import { throwIfAborted } from "./abort.js";
+import { errorOutput, findBoundary, getErrorMessage } from "./boundary.js";
+import type { ComponentDirectory } from "./discovery.js";
+import { createBatchingCaller } from "./batch.js";
+import { composeMiddleware } from "./middleware.js";
+import { assertComponentOutput } from "./schema.js";
+import { createPathResolver, formatComponentType, parseComponentType } from "./resolve.js";
+import { callWithPolicy, resolveCallPolicy, timeoutOutput, TimeoutError } from "./resilience.js";
+import { measureCall, registryMetrics } from "./metrics.js";
+import { traceRender } from "./tracing.js";
+import { checkRenderLoop, withAncestor } from "./loop.js";
+import { defaultTypeResolver } from "./discriminator.js";
+import { defaultGetLayout, layoutChildren } from "./layout.js";
+import { childPath } from "./path.js";
 
 // =============================================================================
 // Client Procedure Caller Type
@@ -23,7 +44,7 @@ import type {
  * This matches the shape of client's call function.
  */
 export interface ProcedureCaller {
-  <TResult>(path: string[], input: unknown): Promise<TResult>;
+  <TResult>(path: string[], input: unknown, options?: CallOptions): Promise<TResult>;
 }
 
 // =============================================================================
@@ -35,7 +56,7 @@ export interface ProcedureCaller {
  *
  * @param call - Client's procedure call function
  * @param options - Registry options
- * @returns Registry instance
+ * @returns ClientRegistry instance
  *
  * @example
  * ```typescript
@@ -45,6 +66,7 @@ export interface ProcedureCaller {
  * const registry = createClientRegistry(call, {
  *   namespace: "ui",
  *   defaultSize: { width: 800, height: 600 },
+ *   cache: createRenderCache({ maxEntries: 1000, ttlMs: 30_000 }),
  * });
  *
  * // Now pass to splay's renderer
@@ -54,28 +76,61 @@ export interface ProcedureCaller {
 export function createClientRegistry(
   call: ProcedureCaller,
   options: ClientRegistryOptions = {}
-): Registry {
-  const { namespace } = options;
+): ClientRegistry {
+  const {
+    cache,
+    batch,
+    middleware = [],
+    timeoutFallback = "descriptor",
+    directory,
+    validate = false,
+    resolveType,
+    defaultSize,
+  } = options;
+  const metrics = registryMetrics(options.metrics);
+  const resolver = createPathResolver(options);
 
-  /**
-   * Build the procedure path for a component type.
-   */
-  function buildPath(type: string): string[] {
-    const basePath = ["components"];
-    if (namespace) {
-      basePath.push(namespace);
-    }
-    basePath.push(type);
-    return basePath;
-  }
+  // Coalesce same-tick calls into batch procedure calls
+  const callProcedure: ProcedureCaller = batch
+    ? createBatchingCaller(call, batch === true ? {} : batch)
+    : call;
+
+  // Run every component call through the middleware pipeline
+  const callComponent = composeMiddleware(middleware, async (componentCall: ComponentCall) => {
+    const result = await callProcedure<ComponentOutput>(componentCall.path, componentCall.input, {
+      signal: componentCall.signal,
+    });
+    return validate ? assertComponentOutput(componentCall.type, result) : result;
+  });
 
   /**
    * Create a renderer function for a component type.
    */
   function createRenderer(type: string): ComponentRenderer {
-    const procedurePath = buildPath(type);
+    const { name } = parseComponentType(type);
+    const policy = resolveCallPolicy(options, name);
+
+    const cacheable = cache?.shouldCache(name) ?? false;
 
     return async (ctx: RenderContext): Promise<ComponentOutput> => {
+      throwIfAborted(ctx.signal);
+
+      // Pick the version for this render; it is part of the cache key
+      const component = resolver.selectVersion(type, ctx);
+      const versionedType = formatComponentType(component.name, component.version);
+
+      const procedurePath = await resolver.resolve(component);
+      const scope = procedurePath.join(".");
+
+      // Serve from the render cache when data and size are unchanged
+      if (cacheable) {
+        const cached = cache!.get(versionedType, ctx.data, ctx.size, scope);
+        metrics?.recordCacheLookup(type, cached !== undefined);
+        if (cached) {
+          return cached;
+        }
+      }
+
       // Build the input for the component procedure
       const input = {
         data: ctx.data,
@@ -84,8 +139,33 @@ export function createClientRegistry(
         depth: ctx.depth,
       };
 
-      // Call the procedure
-      const result = await call<ComponentOutput>(procedurePath, input);
+      // Call the procedure, applying the type's timeout and retry policy
+      let result: ComponentOutput;
+      try {
+        result = await measureCall(metrics, type, ctx.signal, () =>
+          callWithPolicy(
+            type,
+            (signal) => callComponent({ type, path: procedurePath, input, signal }),
+            policy,
+            ctx.signal
+          )
+        );
+      } catch (error) {
+        if (!(error instanceof TimeoutError)) {
+          throw error;
+        }
+
+        const stale =
+          timeoutFallback === "stale" && cacheable
+            ? cache!.getStale(versionedType, ctx.data, ctx.size, scope)
+            : undefined;
+        return stale ?? timeoutOutput(error, ctx.path);
+      }
+
+      if (cacheable) {
+        cache!.set(versionedType, ctx.data, ctx.size, ctx.path, result, scope);
+      }
+
       return result;
     };
   }
@@ -115,24 +195,49 @@ export function createClientRegistry(
 
     /**
      * Check if a renderer exists.
-     * Note: This always returns true since we lazily create renderers.
-     * Actual existence is checked at call time.
+     * Uses the discovery listing once the directory is loaded. Otherwise
+     * this returns true since we lazily create renderers, and actual
+     * existence is checked at call time.
      */
-    has(_type: string): boolean {
+    has(type: string): boolean {
+      if (directory?.loaded) {
+        const candidates = resolver.candidates(parseComponentType(type));
+        return candidates.some((path) => directory.hasPath(path));
+      }
+
       // We optimistically return true - actual check happens at call time
       // This matches splay's expectation that has() is a quick check
       return true;
     },
 
+    /**
+     * List the component types available in this registry's namespaces.
+     */
+    types(): string[] {
+      if (!directory) {
+        return [];
+      }
+
+      const types = directory
+        .listings()
+        .filter((listing) => resolver.namespaces.includes(listing.namespace))
+        .map((listing) => listing.type);
+      return Array.from(new Set(types));
+    },
+
     /**
      * Register a renderer (not supported - use client procedures).
      */
     register(type: string, _renderer: ComponentRenderer): void {
       throw new Error(
         `Cannot register renderers directly on ClientRegistry. ` +
-          `Define a component procedure at path: ${buildPath(type).join(".")}`
+          `Define a component procedure at path: ` +
+          resolver.candidates(parseComponentType(type))[0]!.join(".")
       );
     },
+
+    ...(resolveType ? { resolveType } : {}),
+    ...(defaultSize ? { defaultSize } : {}),
   };
 }
 
@@ -142,38 +247,40 @@ export function createClientRegistry(
 
 /**
  * Create a registry that can check procedure existence.
- * Requires an additional hasProcedure function from client.
+ * Requires either a hasProcedure function from client, or a component
+ * directory (see createComponentDirectory) that has been loaded.
  *
  * @param call - Client's procedure call function
- * @param hasProcedure - Function to check if a procedure exists
- * @param options - Registry options
+ * @param check - Function to check if a procedure exists, or a component directory
+ * @param options - Registry options (`hasProcedure` is replaced by the check)
  * @returns Registry with accurate has() checks
  */
 export function createCheckedRegistry(
   call: ProcedureCaller,
-  hasProcedure: (path: string[]) => boolean,
+  check: ((path: string[]) => boolean) | ComponentDirectory,
   options: ClientRegistryOptions = {}
-): Registry {
-  const baseRegistry = createClientRegistry(call, options);
-  const { namespace } = options;
-
-  function buildPath(type: string): string[] {
-    const basePath = ["components"];
-    if (namespace) {
-      basePath.push(namespace);
-    }
-    basePath.push(type);
-    return basePath;
-  }
+): ClientRegistry {
+  const directory = typeof check === "function" ? options.directory : check;
+  const hasProcedure =
+    typeof check === "function" ? check : (path: string[]) => check.hasPath(path);
+
+  // The check always wins over options.hasProcedure, so has() and path
+  // resolution agree on which procedures exist
+  const baseRegistry = createClientRegistry(call, {
+    ...options,
+    hasProcedure,
+    ...(directory ? { directory } : {}),
+  });
+  const resolver = createPathResolver(options);
 
   return {
     ...baseRegistry,
 
     /**
-     * Check if a procedure exists for this component type.
+     * Check if a procedure exists for this component type, in any namespace.
      */
     has(type: string): boolean {
-      return hasProcedure(buildPath(type));
+      return resolver.candidates(parseComponentType(type)).some((path) => hasProcedure(path));
     },
   };
 }
@@ -185,11 +292,16 @@ export function createCheckedRegistry(
 /**
  * Create a render context for calling component procedures.
  *
+ * `ctx.render(data, path)`, or with an undefined size, uses the registry's
+ * defaultSize, else this render's size. `ctx.renderChildren` sizes children
+ * from a layout.
+ *
  * @param registry - The registry to use for child renders
  * @param data - Data to render
  * @param size - Available size
  * @param path - Path in render tree
  * @param depth - Current depth
+ * @param options - Options inherited by every child render
  * @returns RenderContext for component procedures
  */
 export function createRenderContext<TData>(
@@ -197,61 +309,216 @@ export function createRenderContext<TData>(
   data: TData,
   size: Size,
   path: string = "root",
-  depth: number = 0
+  depth: number = 0,
+  options: RenderContextOptions = {}
 ): RenderContext<TData> {
+  const renderChild = (
+    childData: unknown,
+    sizeOrPath: Size | string | undefined,
+    pathArgument?: string
+  ) => {
+    const [childSize, childPathValue] =
+      typeof sizeOrPath === "string" ? [undefined, sizeOrPath] : [sizeOrPath, pathArgument!];
+    return renderComponent(
+      registry,
+      childData,
+      childSize ?? registry.defaultSize ?? size,
+      childPathValue,
+      depth + 1,
+      options
+    );
+  };
+
   return {
     data,
     size,
     path,
     depth,
-    render: async (childData: unknown, childSize: Size, childPath: string) => {
-      // Determine component type from data
-      const type = getComponentType(childData);
-      if (!type) {
-        throw new Error(`Cannot determine component type for data at ${childPath}`);
-      }
-
-      const renderer = registry.get(type);
-      if (!renderer) {
-        throw new Error(`No renderer found for component type: ${type}`);
-      }
-
-      // Create child context
-      const childCtx = createRenderContext(
-        registry,
-        childData,
-        childSize,
-        childPath,
-        depth + 1
+    render: renderChild,
+    async renderChildren(children: readonly unknown[], layout?: LayoutSpec) {
+      const spec = layout ?? defaultGetLayout(data, undefined);
+      const sizes = spec
+        ? await layoutChildren(spec, size, children, options.measure)
+        : children.map(() => size);
+      return Promise.all(
+        children.map((child, index) => renderChild(child, sizes[index], childPath(path, index)))
       );
-
-      return renderer(childCtx);
     },
+    signal: options.signal,
+    span: options.span,
   };
 }
 
 /**
- * Extract component type from data.
- * Looks for a `type` or `__type__` property.
+ * Render a single component from its data.
+ * Resolves the component type, looks up its renderer and calls it with a
+ * fresh render context. Children are not rendered - see renderTree.
+ *
+ * Failures are handled by the first matching error boundary in `options`;
+ * without one, the returned promise rejects.
+ *
+ * @param registry - The registry to resolve renderers from
+ * @param data - Data to render
+ * @param size - Available size
+ * @param path - Path in render tree
+ * @param depth - Current depth
+ * @param options - Render options (error boundaries, tracing, ...)
+ * @returns The component's output
  */
-function getComponentType(data: unknown): string | null {
-  if (data === null || typeof data !== "object") {
-    return null;
+export function renderComponent(
+  registry: Registry,
+  data: unknown,
+  size: Size,
+  path: string,
+  depth: number,
+  options: RenderContextOptions = {}
+): Promise<ComponentOutput> {
+  const target: RenderTarget = { data, size, path, depth };
+  return traceRender(componentTypeOf(registry, data, options) ?? "unknown", target, options, (traced) =>
+    guardRender(registry, target, traced, () => invokeRenderer(registry, target, traced))
+  );
+}
+
+// =============================================================================
+// Render Internals (shared with renderTree)
+// =============================================================================
+
+/**
+ * A node to render.
+ */
+export interface RenderTarget {
+  data: unknown;
+  size: Size;
+  path: string;
+  depth: number;
+}
+
+/**
+ * Resolve and call the renderer for a node, without error boundaries.
+ * Depth and cycle checks run first (see checkRenderLoop).
+ */
+export async function invokeRenderer(
+  registry: Registry,
+  target: RenderTarget,
+  options: RenderContextOptions
+): Promise<ComponentOutput> {
+  const { data, path } = target;
+  throwIfAborted(options.signal);
+
+  // Determine component type from data
+  const type = componentTypeOf(registry, data, options);
+  if (!type) {
+    throw new Error(`Cannot determine component type for data at ${path}`);
   }
 
-  const obj = data as Record<string, unknown>;
+  // Stop runaway recursion before calling the component
+  const loop = checkRenderLoop(type, target, options);
+  if (loop) {
+    return loop;
+  }
+
+  return callRenderer(registry, type, target, withAncestor(options, type, target));
+}
+
+/**
+ * Call the renderer of a resolved component type, without loop checks, for
+ * callers that already ran checkRenderLoop for the node. `childOptions`
+ * must list the node among its ancestors (see withAncestor).
+ */
+export async function callRenderer(
+  registry: Registry,
+  type: string,
+  target: RenderTarget,
+  childOptions: RenderContextOptions
+): Promise<ComponentOutput> {
+  const { data, size, path, depth } = target;
+  throwIfAborted(childOptions.signal);
 
-  // Check for type property
-  const typeValue = obj["type"];
-  if (typeof typeValue === "string") {
-    return typeValue;
+  const renderer = registry.get(type);
+  if (!renderer) {
+    throw new Error(`No renderer found for component type: ${type}`);
   }
 
-  // Check for __type__ property (alternative convention)
-  const altTypeValue = obj["__type__"];
-  if (typeof altTypeValue === "string") {
-    return altTypeValue;
+  const ctx = createRenderContext(registry, data, size, path, depth, childOptions);
+  return renderer(ctx);
+}
+
+/**
+ * Run a render, replacing a failure with the output of the first matching
+ * error boundary. Failures no boundary catches are rethrown.
+ */
+export async function guardRender(
+  registry: Registry,
+  target: RenderTarget,
+  options: RenderContextOptions,
+  render: () => Promise<ComponentOutput>
+): Promise<ComponentOutput> {
+  const { boundaries = [], onError } = options;
+
+  try {
+    return await render();
+  } catch (error) {
+    // Cancellation is never swallowed by a boundary
+    if (options.signal?.aborted) {
+      throw error;
+    }
+
+    const info: RenderErrorInfo = {
+      error,
+      message: getErrorMessage(error),
+      type: componentTypeOf(registry, target.data, options),
+      path: target.path,
+      depth: target.depth,
+    };
+
+    const boundary = findBoundary(boundaries, info);
+    if (!boundary) {
+      throw error;
+    }
+
+    onError?.(info);
+
+    const errorProps = { message: info.message, path: info.path, type: info.type };
+    const { fallback } = boundary;
+
+    try {
+      if (typeof fallback === "function") {
+        return await fallback(info);
+      }
+      if (typeof fallback === "string") {
+        const fallbackData = { type: fallback, error: errorProps, data: target.data };
+        return await invokeRenderer(registry, { ...target, data: fallbackData }, options);
+      }
+    } catch {
+      // A failing fallback degrades to the plain error descriptor
+    }
+
+    return errorOutput(errorProps);
   }
+}
 
-  return null;
+/**
+ * Extract component type from data.
+ * Looks for a `type` or `__type__` property, unless a resolver is given.
+ *
+ * @param data - Data node
+ * @param resolveType - Type resolver (see createTypeResolver)
+ */
+export function getComponentType(
+  data: unknown,
+  resolveType: TypeResolver = defaultTypeResolver
+): string | null {
+  return resolveType(data);
+}
+
+/**
+ * Component type of a data node during a render: the render options'
+ * resolver wins over the registry's.
+ */
+export function componentTypeOf(
+  registry: Registry,
+  data: unknown,
+  options: RenderContextOptions
+): string | null {
+  return getComponentType(data, options.resolveType ?? registry.resolveType);
 }
@@ -0,0 +1,267 @@
+/**
+ * Resilience
+ *
+ * Timeouts, retries with exponential backoff, and stream reconnection for
+ * component procedure calls.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type { AbortSignalLike, ClientRegistryOptions, RetryPolicy, Scheduler } from "./types.js";
+import { abortReason, createLinkedController, onAbort, throwIfAborted } from "./abort.js";
+import { errorOutput } from "./boundary.js";
+import { SchemaValidationError } from "./schema.js";
+import { systemScheduler } from "./scheduler.js";
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Thrown when a component call does not settle within its timeout.
+ */
+export class TimeoutError extends Error {
+  /** Component type of the call */
+  readonly componentType: string;
+  /** Timeout that expired */
+  readonly timeoutMs: number;
+
+  constructor(componentType: string, timeoutMs: number) {
+    super(`Component ${componentType} timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+    this.componentType = componentType;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Create the descriptor produced when a component call times out.
+ * It is an `__error__` descriptor with `code: "timeout"`.
+ */
+export function timeoutOutput(error: TimeoutError, path: string): ComponentOutput {
+  return errorOutput({
+    message: error.message,
+    path,
+    type: error.componentType,
+    code: "timeout",
+    timeoutMs: error.timeoutMs,
+  });
+}
+
+// =============================================================================
+// Policy Resolution
+// =============================================================================
+
+/**
+ * Timeout and retry policy for one component type.
+ */
+export interface CallPolicy {
+  timeoutMs?: number | undefined;
+  retry?: RetryPolicy | undefined;
+  /** Clock for timeouts and retry backoff (default: systemScheduler) */
+  scheduler?: Scheduler | undefined;
+}
+
+/**
+ * Resolve the timeout and retry policy of a component type from registry options.
+ * Per-type entries override the defaults.
+ */
+export function resolveCallPolicy(options: ClientRegistryOptions, type: string): CallPolicy {
+  return {
+    timeoutMs: options.timeouts?.[type] ?? options.timeoutMs,
+    retry: options.retries?.[type] ?? options.retry,
+    scheduler: options.scheduler,
+  };
+}
+
+// =============================================================================
+// Timeouts & Retries
+// =============================================================================
+
+/**
+ * Run a call with a per-attempt timeout and retries.
+ * Each attempt receives its own signal, aborted when the attempt times out
+ * or the parent signal aborts.
+ *
+ * @param type - Component type (for timeout errors)
+ * @param attempt - Performs one attempt of the call
+ * @param policy - Timeout and retry policy
+ * @param signal - Parent signal cancelling every attempt
+ * @returns The first successful result
+ * @throws TimeoutError if the last attempt timed out
+ */
+export async function callWithPolicy<T>(
+  type: string,
+  attempt: (signal: AbortSignalLike | undefined) => Promise<T>,
+  policy: CallPolicy,
+  signal?: AbortSignalLike
+): Promise<T> {
+  const { timeoutMs, retry, scheduler = systemScheduler } = policy;
+  const maxAttempts = retry ? Math.max(1, retry.maxAttempts ?? 3) : 1;
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    throwIfAborted(signal);
+
+    try {
+      return timeoutMs === undefined
+        ? await attempt(signal)
+        : await withTimeout(type, attempt, timeoutMs, signal, scheduler);
+    } catch (error) {
+      const canRetry =
+        retry !== undefined &&
+        attemptNumber < maxAttempts &&
+        !signal?.aborted &&
+        isRetryable(retry, error, attemptNumber);
+
+      if (!canRetry) {
+        throw error;
+      }
+
+      await sleep(backoffDelay(retry, attemptNumber), signal, scheduler);
+    }
+  }
+}
+
+/**
+ * Run one attempt, rejecting with a TimeoutError once `timeoutMs` elapses.
+ */
+async function withTimeout<T>(
+  type: string,
+  attempt: (signal: AbortSignalLike | undefined) => Promise<T>,
+  timeoutMs: number,
+  signal: AbortSignalLike | undefined,
+  scheduler: Scheduler
+): Promise<T> {
+  const { controller, dispose } = createLinkedController(signal);
+  let timer: unknown;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = scheduler.setTimeout(() => {
+      const error = new TimeoutError(type, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([attempt(controller.signal), timeout]);
+  } finally {
+    scheduler.clearTimeout(timer);
+    dispose();
+  }
+}
+
+/**
+ * Check whether a failed attempt may be retried.
+ * By default every error is retryable except malformed outputs.
+ */
+export function isRetryable(policy: RetryPolicy, error: unknown, attempt: number): boolean {
+  return policy.retryable
+    ? policy.retryable(error, attempt)
+    : !(error instanceof SchemaValidationError);
+}
+
+/**
+ * Compute the delay before the next attempt: exponential backoff capped at
+ * `maxDelayMs`, with up to `jitter` of the delay randomly removed.
+ *
+ * @param policy - Retry policy
+ * @param attempt - Number of the attempt that just failed (1-based)
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const { initialDelayMs = 100, maxDelayMs = 5000, factor = 2, jitter = 0.5 } = policy;
+  const delay = Math.min(maxDelayMs, initialDelayMs * factor ** (attempt - 1));
+  const spread = Math.min(1, Math.max(0, jitter));
+  return delay * (1 - spread * Math.random());
+}
+
+/**
+ * Wait for a delay. Rejects with the abort reason if the signal aborts first.
+ */
+export function sleep(
+  ms: number,
+  signal?: AbortSignalLike,
+  scheduler: Scheduler = systemScheduler
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    let cleanup = () => {};
+    const timer = scheduler.setTimeout(() => {
+      cleanup();
+      resolve();
+    }, ms);
+
+    if (signal) {
+      cleanup = onAbort(signal, () => {
+        scheduler.clearTimeout(timer);
+        reject(abortReason(signal));
+      });
+    }
+  });
+}
+
+// =============================================================================
+// Stream Reconnection
+// =============================================================================
+
+/**
+ * Iterate a stream, reopening it after failures according to a retry policy.
+ * The attempt count resets whenever the stream delivers a frame. The stream
+ * ends normally when the source completes or the signal aborts.
+ *
+ * @param open - Opens a fresh stream
+ * @param policy - Reconnect policy
+ * @param signal - Signal stopping reconnection
+ * @param scheduler - Clock for the backoff between attempts
+ */
+export async function* reconnectStream<T>(
+  open: () => AsyncIterable<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignalLike,
+  scheduler: Scheduler = systemScheduler
+): AsyncGenerator<T, void, undefined> {
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? 3);
+  let failures = 0;
+
+  while (true) {
+    const iterator = open()[Symbol.asyncIterator]();
+    let failure: { error: unknown } | undefined;
+    let finished = false;
+
+    // Only errors from the stream reconnect, not ones thrown in by the consumer
+    try {
+      while (true) {
+        let result: IteratorResult<T>;
+        try {
+          result = await iterator.next();
+        } catch (error) {
+          failure = { error };
+          break;
+        }
+        if (result.done) {
+          finished = true;
+          return;
+        }
+        failures = 0;
+        yield result.value;
+      }
+    } finally {
+      if (!finished && !failure) {
+        void Promise.resolve(iterator.return?.()).catch(() => {});
+      }
+    }
+
+    failures++;
+    if (signal?.aborted) {
+      return;
+    }
+    if (failures >= maxAttempts || !isRetryable(policy, failure.error, failures)) {
+      throw failure.error;
+    }
+
+    try {
+      await sleep(backoffDelay(policy, failures), signal, scheduler);
+    } catch {
+      // Aborted while waiting to reconnect
+      return;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Component Resolution
+ *
+ * Maps component types to procedure paths. Supports ordered namespace
+ * fallback chains (first namespace whose procedure exists wins) and
+ * versioned types (`user-card@2`, or a version selector).
+ */
+
+import type { ClientRegistryOptions, RenderContext } from "./types.js";
+
+// =============================================================================
+// Versioned Types
+// =============================================================================
+
+/**
+ * A component type split into its name and optional version.
+ */
+export interface ParsedComponentType {
+  name: string;
+  version?: string | undefined;
+}
+
+/**
+ * Split a component type like `user-card@2` into name and version.
+ */
+export function parseComponentType(type: string): ParsedComponentType {
+  const at = type.lastIndexOf("@");
+  if (at <= 0) {
+    return { name: type };
+  }
+  return { name: type.slice(0, at), version: type.slice(at + 1) };
+}
+
+/**
+ * Format a name and optional version back into a component type.
+ */
+export function formatComponentType(name: string, version?: string): string {
+  return version ? `${name}@${version}` : name;
+}
+
+// =============================================================================
+// Path Resolver
+// =============================================================================
+
+/**
+ * Resolves component types to procedure paths for a registry.
+ */
+export interface PathResolver {
+  /** Dotted namespaces in priority order ("" for no namespace) */
+  namespaces: string[];
+  /** Select the version of a type for a render (explicit `@version` wins) */
+  selectVersion(type: string, ctx: RenderContext): ParsedComponentType;
+  /** Candidate procedure paths, one per namespace, in priority order */
+  candidates(component: ParsedComponentType): string[][];
+  /** Resolve the procedure path: the first candidate that exists */
+  resolve(component: ParsedComponentType): Promise<string[]>;
+}
+
+/**
+ * Create a path resolver from registry options.
+ *
+ * Paths have the shape `components.<namespace>.<name>[.v<version>]`. With
+ * several namespaces and a `hasProcedure` check, the first namespace whose
+ * procedure exists wins; existence checks are cached. Without a check, or
+ * if none exists, the first namespace is used.
+ *
+ * @param options - Registry options (namespace, hasProcedure, directory, versions)
+ * @returns PathResolver instance
+ */
+export function createPathResolver(options: ClientRegistryOptions): PathResolver {
+  const { namespace, directory, versions } = options;
+
+  // Without an explicit check, fall back to the discovery listing
+  const hasProcedure =
+    options.hasProcedure ??
+    (directory
+      ? async (path: string[]) => {
+          await directory.load();
+          return directory.hasPath(path);
+        }
+      : undefined);
+
+  const dotted =
+    namespace === undefined ? [""] : typeof namespace === "string" ? [namespace] : [...namespace];
+  if (dotted.length === 0) {
+    dotted.push("");
+  }
+
+  // Namespaces as path segments ("ui.v2" → ["ui", "v2"]); [] for no namespace
+  const namespaces = dotted.map((ns) => (ns ? ns.split(".") : []));
+
+  // Cached existence checks, keyed by dotted path
+  const existence = new Map<string, Promise<boolean>>();
+
+  function exists(path: string[]): Promise<boolean> {
+    const key = path.join(".");
+    let check = existence.get(key);
+    if (!check) {
+      check = Promise.resolve()
+        .then(() => hasProcedure!(path))
+        .catch(() => {
+          // Don't cache failed checks
+          existence.delete(key);
+          return false;
+        });
+      existence.set(key, check);
+    }
+    return check;
+  }
+
+  return {
+    namespaces: dotted,
+
+    selectVersion(type: string, ctx: RenderContext): ParsedComponentType {
+      const parsed = parseComponentType(type);
+      if (parsed.version || !versions) {
+        return parsed;
+      }
+
+      const version =
+        typeof versions === "function" ? versions(parsed.name, ctx) : versions[parsed.name];
+      return { name: parsed.name, version };
+    },
+
+    candidates(component: ParsedComponentType): string[][] {
+      const suffix = component.version ? [`v${component.version}`] : [];
+      return namespaces.map((segments) => ["components", ...segments, component.name, ...suffix]);
+    },
+
+    async resolve(component: ParsedComponentType): Promise<string[]> {
+      const candidates = this.candidates(component);
+      if (candidates.length === 1 || !hasProcedure) {
+        return candidates[0]!;
+      }
+
+      for (const candidate of candidates) {
+        if (await exists(candidate)) {
+          return candidate;
+        }
+      }
+
+      // Nothing exists - the call fails with the primary path
+      return candidates[0]!;
+    },
+  };
+}
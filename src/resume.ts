@@ -0,0 +1,289 @@
+/**
+ * Resumable Streams
+ *
+ * Sequence-numbered component streams. The procedure side numbers its
+ * frames and can replay them from a resume token; the registry side tracks
+ * the last frame received, reopens broken streams with it as the resume
+ * token, drops replayed duplicates and reports skipped frames.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type {
+  AbortSignalLike,
+  RetryPolicy,
+  Scheduler,
+  SequencedOutput,
+  StreamStatus,
+} from "./types.js";
+import { onAbort } from "./abort.js";
+import { backoffDelay, isRetryable, sleep } from "./resilience.js";
+import { systemScheduler } from "./scheduler.js";
+
+// =============================================================================
+// Frame Log (procedure side)
+// =============================================================================
+
+/**
+ * Options for createFrameLog.
+ */
+export interface FrameLogOptions {
+  /** Frames retained for replay (default: 64) */
+  capacity?: number;
+}
+
+/**
+ * Sequenced frames of one component stream, shared by its subscribers.
+ */
+export interface FrameLog {
+  /** Number the next frame and deliver it to readers */
+  append(output: ComponentOutput): SequencedOutput;
+  /**
+   * Read frames after a resume token: the retained frames after it, or the
+   * latest frame when it is unknown or too old, then every new frame
+   */
+  read(resumeToken?: number, options?: { signal?: AbortSignalLike }): AsyncIterable<SequencedOutput>;
+  /** The latest frame, if any */
+  readonly latest: SequencedOutput | undefined;
+  /** End every reader once it has caught up */
+  close(): void;
+}
+
+/**
+ * Create a frame log for a resumable streaming procedure.
+ *
+ * Frames are numbered from 1. Readers resuming within the retained frames
+ * get a replay of what they missed; older or unknown tokens skip to the
+ * latest frame, which the registry reports as a gap.
+ *
+ * @param options - Log options
+ * @returns FrameLog instance
+ *
+ * @example
+ * ```typescript
+ * const prices = createFrameLog({ capacity: 100 });
+ * feed.on("tick", (tick) => prices.append({ type: "ticker", props: tick }));
+ *
+ * createProcedure()
+ *   .path(["components", "ticker"])
+ *   .meta({ streaming: true })
+ *   .handler((input) => prices.read(input.resumeToken))
+ *   .build();
+ * ```
+ */
+export function createFrameLog(options: FrameLogOptions = {}): FrameLog {
+  const capacity = Math.max(1, Math.floor(options.capacity ?? 64));
+  const frames: SequencedOutput[] = [];
+  const waiters = new Set<() => void>();
+  let nextSeq = 1;
+  let closed = false;
+
+  const notify = (): void => {
+    for (const wake of [...waiters]) {
+      wake();
+    }
+  };
+
+  return {
+    append(output: ComponentOutput): SequencedOutput {
+      if (closed) {
+        throw new Error("Cannot append to a closed frame log");
+      }
+      const frame: SequencedOutput = { ...output, seq: nextSeq++ };
+      frames.push(frame);
+      if (frames.length > capacity) {
+        frames.shift();
+      }
+      notify();
+      return frame;
+    },
+
+    async *read(resumeToken?: number, readOptions: { signal?: AbortSignalLike } = {}) {
+      const { signal } = readOptions;
+      const oldest = frames[0]?.seq ?? nextSeq;
+
+      // Replay when the token is retained, else start at the latest frame
+      let next =
+        resumeToken !== undefined && resumeToken + 1 >= oldest && resumeToken < nextSeq
+          ? resumeToken + 1
+          : Math.max(oldest, nextSeq - 1);
+
+      while (!signal?.aborted) {
+        const frame = frames.find((candidate) => candidate.seq >= next);
+        if (frame) {
+          next = frame.seq + 1;
+          yield frame;
+          continue;
+        }
+        if (closed) {
+          return;
+        }
+
+        let wake = () => {};
+        const changed = new Promise<void>((resolve) => (wake = resolve));
+        waiters.add(wake);
+        const cleanup = signal ? onAbort(signal, wake) : () => {};
+        try {
+          await changed;
+        } finally {
+          waiters.delete(wake);
+          cleanup();
+        }
+      }
+    },
+
+    get latest(): SequencedOutput | undefined {
+      return frames[frames.length - 1];
+    },
+
+    close(): void {
+      closed = true;
+      notify();
+    },
+  };
+}
+
+// =============================================================================
+// Stream Resumption (registry side)
+// =============================================================================
+
+/**
+ * Options for resumeStream.
+ */
+export interface ResumeStreamOptions {
+  /** Component type, for status events */
+  type: string;
+  /** Render path, for status events */
+  path: string;
+  /** Signal stopping the stream and reconnection */
+  signal?: AbortSignalLike | undefined;
+  /** Called when the stream reconnects, resumes, skips frames or restarts its numbering */
+  onStatus?: ((status: StreamStatus) => void) | undefined;
+  /** Clock for the backoff between attempts (default: systemScheduler) */
+  scheduler?: Scheduler | undefined;
+  /** Only reopen a stream once it has delivered a sequenced frame (default: false) */
+  sequencedOnly?: boolean | undefined;
+}
+
+/**
+ * Iterate a sequenced stream, reopening it after failures with the last
+ * sequence number received as the resume token.
+ *
+ * Replayed frames at or below the last sequence number are dropped, and a
+ * jump in sequence numbers is reported as a "gap". A reopened stream whose
+ * first frame is numbered below the last one has restarted its numbering:
+ * it is reported as a "reset" and followed from its new numbers. Frames are yielded
+ * without their `seq`; frames without one pass through and don't move the
+ * resume token. The attempt count resets whenever the stream delivers a
+ * frame, and errors thrown in by the consumer don't reopen the stream, as
+ * in reconnectStream.
+ *
+ * @param open - Opens the stream after a resume token (undefined at first)
+ * @param policy - Reconnect policy
+ * @param options - Status reporting and cancellation
+ */
+export async function* resumeStream(
+  open: (resumeToken: number | undefined) => AsyncIterable<ComponentOutput>,
+  policy: RetryPolicy,
+  options: ResumeStreamOptions
+): AsyncGenerator<ComponentOutput, void, undefined> {
+  const { type, path, signal, onStatus, scheduler = systemScheduler, sequencedOnly } = options;
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? 3);
+  let lastSeq: number | undefined;
+  let failures = 0;
+  let resuming = false;
+
+  while (true) {
+    const iterator = open(lastSeq)[Symbol.asyncIterator]();
+    let failure: { error: unknown } | undefined;
+    let finished = false;
+    // Whether the next frame is the first of a reopened stream
+    let reopened = resuming;
+
+    try {
+      while (true) {
+        let result: IteratorResult<ComponentOutput>;
+        try {
+          result = await iterator.next();
+        } catch (error) {
+          failure = { error };
+          break;
+        }
+        if (result.done) {
+          finished = true;
+          return;
+        }
+
+        const frame = result.value;
+        const seq = sequenceOf(frame);
+
+        // A reopened stream starting below the resume token has restarted
+        // its numbering, e.g. after a server restart
+        const restarted =
+          reopened && seq !== undefined && lastSeq !== undefined && seq < lastSeq;
+        reopened = false;
+
+        if (!restarted && seq !== undefined && lastSeq !== undefined && seq <= lastSeq) {
+          // Replayed frame we already have
+          continue;
+        }
+
+        if (resuming) {
+          resuming = false;
+          onStatus?.({ kind: "resumed", type, path, lastSeq });
+        }
+        if (restarted) {
+          onStatus?.({ kind: "reset", type, path, lastSeq: lastSeq!, seq: seq! });
+        }
+        if (seq !== undefined) {
+          if (!restarted && lastSeq !== undefined && seq > lastSeq + 1) {
+            const from = lastSeq + 1;
+            onStatus?.({ kind: "gap", type, path, from, to: seq - 1, missed: seq - from });
+          }
+          lastSeq = seq;
+        }
+        failures = 0;
+        yield seq !== undefined ? withoutSeq(frame) : frame;
+      }
+    } finally {
+      if (!finished && !failure) {
+        void Promise.resolve(iterator.return?.()).catch(() => {});
+      }
+    }
+
+    const { error } = failure;
+    failures++;
+    if (signal?.aborted) {
+      return;
+    }
+    if (
+      (sequencedOnly && lastSeq === undefined) ||
+      failures >= maxAttempts ||
+      !isRetryable(policy, error, failures)
+    ) {
+      throw error;
+    }
+
+    onStatus?.({ kind: "reconnecting", type, path, attempt: failures, lastSeq, error });
+    resuming = true;
+
+    try {
+      await sleep(backoffDelay(policy, failures), signal, scheduler);
+    } catch {
+      // Aborted while waiting to reconnect
+      return;
+    }
+  }
+}
+
+/**
+ * Read the sequence number of a frame, if it has one.
+ */
+function sequenceOf(frame: ComponentOutput): number | undefined {
+  const seq = (frame as Partial<SequencedOutput>).seq;
+  return typeof seq === "number" ? seq : undefined;
+}
+
+function withoutSeq(frame: ComponentOutput): ComponentOutput {
+  const { seq: _seq, ...output } = frame as SequencedOutput;
+  return output;
+}
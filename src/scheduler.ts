@@ -0,0 +1,149 @@
+/**
+ * Scheduling
+ *
+ * The clock and timers behind time-based utilities: the system scheduler
+ * for real time, and a virtual scheduler whose time only moves when a test
+ * advances it, so timing-dependent streams run deterministically.
+ */
+
+import type { Scheduler } from "./types.js";
+
+// Portable timer types (cross-platform)
+type TimerFn = (callback: () => void, ms: number) => number;
+type ClearFn = (id: number) => void;
+type GlobalWithTimers = { setTimeout: TimerFn; clearTimeout: ClearFn };
+const timers = globalThis as unknown as GlobalWithTimers;
+
+// =============================================================================
+// System Scheduler
+// =============================================================================
+
+/**
+ * Scheduler using the real clock and timers.
+ */
+export const systemScheduler: Scheduler = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => timers.setTimeout(callback, ms),
+  clearTimeout: (handle) => timers.clearTimeout(handle as number),
+};
+
+// =============================================================================
+// Virtual Scheduler
+// =============================================================================
+
+/**
+ * Options for createVirtualScheduler.
+ */
+export interface VirtualSchedulerOptions {
+  /** Initial time in milliseconds (default: 0) */
+  now?: number;
+}
+
+/**
+ * A scheduler whose time moves only when advanced.
+ */
+export interface VirtualScheduler extends Scheduler {
+  /**
+   * Move time forward, running due timers in time order. Pending promise
+   * work settles after each timer, so streams waiting on it can react
+   * before the next one fires.
+   */
+  advance(ms: number): Promise<void>;
+  /**
+   * Run timers until none are left.
+   *
+   * @throws Error when more than `maxTimers` run, e.g. with a running interval
+   */
+  runAll(maxTimers?: number): Promise<void>;
+  /** Number of timers waiting to run */
+  readonly pending: number;
+}
+
+interface VirtualTimer {
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * Create a virtual scheduler for tests.
+ *
+ * @param options - Initial time
+ * @returns VirtualScheduler instance
+ *
+ * @example
+ * ```typescript
+ * const scheduler = createVirtualScheduler();
+ * const outputs = collect(debounceStream(stream, 200, { scheduler }));
+ * await scheduler.advance(200);
+ * ```
+ */
+export function createVirtualScheduler(options: VirtualSchedulerOptions = {}): VirtualScheduler {
+  const pending = new Map<number, VirtualTimer>();
+  let now = options.now ?? 0;
+  let nextId = 1;
+
+  // Let promise work triggered by a timer run before moving on
+  const settle = () => new Promise<void>((resolve) => timers.setTimeout(resolve, 0));
+
+  const earliest = (limit: number): [number, VirtualTimer] | undefined => {
+    let found: [number, VirtualTimer] | undefined;
+    for (const entry of pending) {
+      if (entry[1].at <= limit && (!found || entry[1].at < found[1].at)) {
+        found = entry;
+      }
+    }
+    return found;
+  };
+
+  const runNext = async (limit: number): Promise<boolean> => {
+    const due = earliest(limit);
+    if (!due) {
+      return false;
+    }
+    const [id, timer] = due;
+    pending.delete(id);
+    now = Math.max(now, timer.at);
+    timer.callback();
+    await settle();
+    return true;
+  };
+
+  return {
+    now: () => now,
+
+    setTimeout(callback: () => void, ms: number): unknown {
+      const id = nextId++;
+      pending.set(id, { at: now + Math.max(0, ms), callback });
+      return id;
+    },
+
+    clearTimeout(handle: unknown): void {
+      pending.delete(handle as number);
+    },
+
+    async advance(ms: number): Promise<void> {
+      const target = now + Math.max(0, ms);
+      await settle();
+      // Timers scheduled by earlier ones run too if they are due
+      let ran = true;
+      while (ran) {
+        ran = await runNext(target);
+      }
+      now = target;
+    },
+
+    async runAll(maxTimers = 10_000): Promise<void> {
+      await settle();
+      let count = 0;
+      while (await runNext(Infinity)) {
+        if (++count >= maxTimers && pending.size > 0) {
+          throw new Error(`Virtual scheduler still has timers after running ${maxTimers}`);
+        }
+      }
+    },
+
+    get pending(): number {
+      return pending.size;
+    },
+  };
+}
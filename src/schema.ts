@@ -0,0 +1,335 @@
+/**
+ * Schemas
+ *
+ * Small Zod-like validators for bridge procedures and component outputs.
+ * Errors use the ZodErrorLike format with path-precise issues, e.g.
+ * `children.0.props: Expected object, received string`.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+
+// =============================================================================
+// Schema Interface (Zod-like interface for procedure system)
+// =============================================================================
+
+/**
+ * A single validation issue.
+ */
+export interface ZodIssueLike {
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * Validation error in Zod's shape.
+ */
+export interface ZodErrorLike {
+  message: string;
+  errors: ZodIssueLike[];
+}
+
+/**
+ * Schema accepted by the procedure system.
+ */
+export interface ZodLikeSchema<T> {
+  parse(data: unknown): T;
+  safeParse(data: unknown): { success: true; data: T } | { success: false; error: ZodErrorLike };
+  _output: T;
+}
+
+/**
+ * Schema that can validate values nested inside other schemas.
+ */
+export interface Schema<T> extends ZodLikeSchema<T> {
+  /** Record issues for `data` found at `path` */
+  check(data: unknown, path: (string | number)[], issues: ZodIssueLike[]): void;
+}
+
+/**
+ * Thrown by parse() when validation fails.
+ */
+export class SchemaValidationError extends Error implements ZodErrorLike {
+  readonly errors: ZodIssueLike[];
+
+  constructor(errors: ZodIssueLike[], prefix?: string) {
+    const summary = errors.map(formatIssue).join("; ");
+    super(prefix ? `${prefix}: ${summary}` : summary);
+    this.name = "SchemaValidationError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * Format an issue as "path: message".
+ */
+function formatIssue(issue: ZodIssueLike): string {
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Create a schema from a check function.
+ */
+function createSchema<T>(
+  check: (data: unknown, path: (string | number)[], issues: ZodIssueLike[]) => void
+): Schema<T> {
+  function safeParse(
+    data: unknown
+  ): { success: true; data: T } | { success: false; error: ZodErrorLike } {
+    const issues: ZodIssueLike[] = [];
+    check(data, [], issues);
+    if (issues.length === 0) {
+      return { success: true, data: data as T };
+    }
+    return { success: false, error: new SchemaValidationError(issues) };
+  }
+
+  return {
+    check,
+    safeParse,
+    parse(data: unknown): T {
+      const result = safeParse(data);
+      if (!result.success) {
+        throw result.error;
+      }
+      return result.data;
+    },
+    _output: undefined as unknown as T,
+  };
+}
+
+/**
+ * Describe the runtime type of a value for error messages.
+ */
+function describe(data: unknown): string {
+  if (data === null) {
+    return "null";
+  }
+  if (Array.isArray(data)) {
+    return "array";
+  }
+  return typeof data;
+}
+
+function isPlainObject(data: unknown): data is Record<string, unknown> {
+  return typeof data === "object" && data !== null && !Array.isArray(data);
+}
+
+// =============================================================================
+// Primitive Schemas
+// =============================================================================
+
+/**
+ * Validate a string. Pass `{ nonEmpty: true }` to reject "".
+ */
+export function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return createSchema<string>((data, path, issues) => {
+    if (typeof data !== "string") {
+      issues.push({ path, message: `Expected string, received ${describe(data)}` });
+    } else if (options.nonEmpty && data.length === 0) {
+      issues.push({ path, message: "Expected non-empty string" });
+    }
+  });
+}
+
+/**
+ * Validate a finite number.
+ */
+export function number(): Schema<number> {
+  return createSchema<number>((data, path, issues) => {
+    if (typeof data !== "number" || !Number.isFinite(data)) {
+      issues.push({ path, message: `Expected number, received ${describe(data)}` });
+    }
+  });
+}
+
+/**
+ * Validate a boolean.
+ */
+export function boolean(): Schema<boolean> {
+  return createSchema<boolean>((data, path, issues) => {
+    if (typeof data !== "boolean") {
+      issues.push({ path, message: `Expected boolean, received ${describe(data)}` });
+    }
+  });
+}
+
+/**
+ * Validate one of a fixed set of values.
+ */
+export function literal<const T extends string | number | boolean>(
+  ...values: T[]
+): Schema<T> {
+  return createSchema<T>((data, path, issues) => {
+    if (!values.includes(data as T)) {
+      const expected = values.map((value) => JSON.stringify(value)).join(" | ");
+      const received = JSON.stringify(data) ?? describe(data);
+      issues.push({ path, message: `Expected ${expected}, received ${received}` });
+    }
+  });
+}
+
+/**
+ * Accept any value.
+ */
+export function unknown(): Schema<unknown> {
+  return createSchema<unknown>(() => {});
+}
+
+/**
+ * Accept "no input": undefined, null or an empty object.
+ */
+export function voidInput(): Schema<void> {
+  return createSchema<void>((data, path, issues) => {
+    if (data === undefined || data === null) {
+      return;
+    }
+    if (!isPlainObject(data) || Object.keys(data).length > 0) {
+      issues.push({ path, message: "Expected no input" });
+    }
+  });
+}
+
+// =============================================================================
+// Composite Schemas
+// =============================================================================
+
+/**
+ * Allow undefined in addition to the inner schema.
+ */
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return createSchema<T | undefined>((data, path, issues) => {
+    if (data !== undefined) {
+      inner.check(data, path, issues);
+    }
+  });
+}
+
+/**
+ * Validate an array whose items all match a schema.
+ */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return createSchema<T[]>((data, path, issues) => {
+    if (!Array.isArray(data)) {
+      issues.push({ path, message: `Expected array, received ${describe(data)}` });
+      return;
+    }
+    data.forEach((value, index) => item.check(value, [...path, index], issues));
+  });
+}
+
+/**
+ * Validate an object whose values all match a schema.
+ */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return createSchema<Record<string, T>>((data, path, issues) => {
+    if (!isPlainObject(data)) {
+      issues.push({ path, message: `Expected object, received ${describe(data)}` });
+      return;
+    }
+    for (const [key, entry] of Object.entries(data)) {
+      value.check(entry, [...path, key], issues);
+    }
+  });
+}
+
+/**
+ * Validate an object with known properties. Unknown properties are allowed
+ * unless `strict` is set.
+ */
+export function object<T extends object>(
+  shape: { [K in keyof T]-?: Schema<T[K]> },
+  options: { strict?: boolean } = {}
+): Schema<T> {
+  return createSchema<T>((data, path, issues) => {
+    if (!isPlainObject(data)) {
+      issues.push({ path, message: `Expected object, received ${describe(data)}` });
+      return;
+    }
+
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      shape[key].check(data[key], [...path, key], issues);
+    }
+
+    if (options.strict) {
+      for (const key of Object.keys(data)) {
+        if (!(key in shape)) {
+          issues.push({ path: [...path, key], message: "Unexpected property" });
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Validate a value against the first matching schema.
+ * Reports the issues of the last option when none match.
+ */
+export function union<T>(...options: Schema<T>[]): Schema<T> {
+  return createSchema<T>((data, path, issues) => {
+    let lastIssues: ZodIssueLike[] = [];
+    for (const option of options) {
+      const optionIssues: ZodIssueLike[] = [];
+      option.check(data, path, optionIssues);
+      if (optionIssues.length === 0) {
+        return;
+      }
+      lastIssues = optionIssues;
+    }
+    issues.push(...lastIssues);
+  });
+}
+
+/**
+ * Defer schema creation, for recursive schemas.
+ */
+export function lazy<T>(get: () => Schema<T>): Schema<T> {
+  return createSchema<T>((data, path, issues) => get().check(data, path, issues));
+}
+
+// =============================================================================
+// Component Output
+// =============================================================================
+
+/**
+ * Schema for ComponentOutput descriptors (recursive through children).
+ */
+export const componentOutputSchema: Schema<ComponentOutput> = object<ComponentOutput>({
+  type: string({ nonEmpty: true }),
+  props: record(unknown()),
+  children: optional(array(lazy(() => componentOutputSchema))),
+  key: optional(union<string | number>(string(), number())),
+});
+
+/**
+ * Validate a ComponentOutput descriptor.
+ *
+ * @example
+ * ```typescript
+ * const result = validateComponentOutput(descriptor);
+ * if (!result.success) {
+ *   // e.g. [{ path: ["children", 0, "props"], message: "Expected object, received string" }]
+ *   console.error(result.error.errors);
+ * }
+ * ```
+ */
+export function validateComponentOutput(
+  value: unknown
+): { success: true; data: ComponentOutput } | { success: false; error: ZodErrorLike } {
+  return componentOutputSchema.safeParse(value);
+}
+
+/**
+ * Assert that a procedure result is a valid ComponentOutput.
+ *
+ * @param type - Component type that produced the result (for the error message)
+ * @param value - Procedure result
+ * @throws SchemaValidationError listing every issue
+ */
+export function assertComponentOutput(type: string, value: unknown): ComponentOutput {
+  const issues: ZodIssueLike[] = [];
+  componentOutputSchema.check(value, [], issues);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(issues, `Invalid output from component ${type}`);
+  }
+  return value as ComponentOutput;
+}
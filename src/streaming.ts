@@ -5,21 +5,32 @@
  * yield multiple outputs over time (live updates, progressive rendering).
  */
 
-import type { ComponentOutput } from "@mark1russell7/client/components";
+import type { ComponentOutput, Size } from "@mark1russell7/client/components";
 import type {
   StreamingRegistry,
   StreamingComponentRenderer,
   RenderContext,
   StreamingRegistryOptions,
+  ComponentCall,
+  CallOptions,
+  StreamOperatorOptions,
+  TypeResolver,
 } from "./types.js";
-
-// Portable timer types (cross-platform)
-type TimerFn = (callback: () => void, ms: number) => number;
-type ClearFn = (id: number) => void;
-type GlobalWithTimers = { setTimeout: TimerFn; clearTimeout: ClearFn };
-type TimerId = number;
-const setTimer = (globalThis as unknown as GlobalWithTimers).setTimeout;
-const clearTimer = (globalThis as unknown as GlobalWithTimers).clearTimeout;
+import { abortable } from "./abort.js";
+import { createPathResolver, parseComponentType } from "./resolve.js";
+import { assertComponentOutput } from "./schema.js";
+import {
+  callWithPolicy,
+  reconnectStream,
+  resolveCallPolicy,
+  timeoutOutput,
+  TimeoutError,
+} from "./resilience.js";
+import { composeMiddleware, composeStreamingMiddleware } from "./middleware.js";
+import { measureCall, measureStream, registryMetrics } from "./metrics.js";
+import { withBackpressure } from "./backpressure.js";
+import { mergeEntries } from "./merge.js";
+import { resumeStream } from "./resume.js";
 
 // =============================================================================
 // Streaming Procedure Caller Type
@@ -30,7 +41,7 @@ const clearTimer = (globalThis as unknown as GlobalWithTimers).clearTimeout;
  * Returns an async iterable of results.
  */
 export interface StreamingProcedureCaller {
-  <TResult>(path: string[], input: unknown): AsyncIterable<TResult>;
+  <TResult>(path: string[], input: unknown, options?: CallOptions): AsyncIterable<TResult>;
 }
 
 // =============================================================================
@@ -40,6 +51,10 @@ export interface StreamingProcedureCaller {
 /**
  * Create a splay-compatible streaming registry backed by client procedures.
  *
+ * Frames are buffered between the procedure stream and the consumer; the
+ * `backpressure` strategy decides what happens when the consumer falls
+ * behind (see withBackpressure).
+ *
  * @param callStreaming - Client's streaming procedure call function
  * @param options - Registry options
  * @returns StreamingRegistry instance
@@ -51,7 +66,9 @@ export interface StreamingProcedureCaller {
  *
  * const registry = createStreamingRegistry(stream, {
  *   namespace: "live",
+ *   backpressure: "drop-oldest",
  *   bufferSize: 10,
+ *   onDrop: ({ type, total }) => console.warn(`${type} dropped ${total} frames`),
  * });
  *
  * // Use for live-updating components
@@ -64,27 +81,27 @@ export function createStreamingRegistry(
   callStreaming: StreamingProcedureCaller,
   options: StreamingRegistryOptions = {}
 ): StreamingRegistry {
-  const { namespace, bufferSize = 16 } = options;
-
-  /**
-   * Build the procedure path for a component type.
-   */
-  function buildPath(type: string): string[] {
-    const basePath = ["components"];
-    if (namespace) {
-      basePath.push(namespace);
-    }
-    basePath.push(type);
-    return basePath;
-  }
+  const {
+    streamingMiddleware = [],
+    directory,
+    validate = false,
+  } = options;
+  const metrics = registryMetrics(options.metrics);
+  const resolver = createPathResolver(options);
+
+  // Run every component stream through the middleware pipeline
+  const streamComponent = composeStreamingMiddleware(streamingMiddleware, (call: ComponentCall) => {
+    const stream = callStreaming<ComponentOutput>(call.path, call.input, { signal: call.signal });
+    return validate ? validateFrames(call.type, stream) : stream;
+  });
 
   /**
    * Create a streaming renderer for a component type.
    */
   function createRenderer(type: string): StreamingComponentRenderer {
-    const procedurePath = buildPath(type);
+    const render = async function* (ctx: RenderContext): AsyncIterable<ComponentOutput> {
+      const procedurePath = await resolver.resolve(resolver.selectVersion(type, ctx));
 
-    return async function* (ctx: RenderContext): AsyncIterable<ComponentOutput> {
       // Build the input for the component procedure
       const input = {
         data: ctx.data,
@@ -93,34 +110,16 @@ export function createStreamingRegistry(
         depth: ctx.depth,
       };
 
-      // Stream from the procedure
-      const stream = callStreaming<ComponentOutput>(procedurePath, input);
-
-      // Yield each output with optional buffering
-      let buffer: ComponentOutput[] = [];
-
-      for await (const output of stream) {
-        if (bufferSize <= 1) {
-          // No buffering - yield immediately
-          yield output;
-        } else {
-          // Add to buffer
-          buffer.push(output);
-
-          // Yield when buffer is full
-          if (buffer.length >= bufferSize) {
-            // Yield the most recent output (discard older ones)
-            yield buffer[buffer.length - 1]!;
-            buffer = [];
-          }
-        }
-      }
+      // Stream from the procedure, reconnecting on failure if configured
+      // and closing it when the render is aborted
+      const call: ComponentCall = { type, path: procedurePath, input, signal: ctx.signal };
+      const stream = abortable(connectStream(streamComponent, call, ctx.path, options), ctx.signal);
 
-      // Yield any remaining buffered output
-      if (buffer.length > 0) {
-        yield buffer[buffer.length - 1]!;
-      }
+      // Buffer between the procedure stream and the consumer
+      yield* bufferFrames(stream, type, ctx.path, options);
     };
+
+    return metrics ? (ctx) => measureStream(metrics, type, render(ctx)) : render;
   }
 
   // Cache of created renderers
@@ -143,13 +142,88 @@ export function createStreamingRegistry(
 
     /**
      * Check if a streaming renderer exists.
+     * Uses the discovery listing once the directory is loaded.
      */
-    has(_type: string): boolean {
+    has(type: string): boolean {
+      if (directory?.loaded) {
+        return resolver
+          .candidates(parseComponentType(type))
+          .some((path) => directory.find(path)?.streaming === true);
+      }
       return true; // Optimistic - actual check at call time
     },
   };
 }
 
+/**
+ * Open a component stream, reconnecting or resuming it on failure as
+ * configured by the registry options.
+ */
+function connectStream(
+  streamComponent: (call: ComponentCall) => AsyncIterable<ComponentOutput>,
+  call: ComponentCall,
+  renderPath: string,
+  options: StreamingRegistryOptions
+): AsyncIterable<ComponentOutput> {
+  const { reconnect, resume = true, onStreamStatus, scheduler } = options;
+
+  if (resume) {
+    const open = (resumeToken: number | undefined) =>
+      streamComponent(
+        resumeToken === undefined ? call : { ...call, input: { ...call.input, resumeToken } }
+      );
+    return resumeStream(open, reconnect ?? {}, {
+      type: call.type,
+      path: renderPath,
+      signal: call.signal,
+      onStatus: onStreamStatus,
+      scheduler,
+      // By default only streams numbering their frames are reopened
+      sequencedOnly: options.resume === undefined && reconnect === undefined,
+    });
+  }
+
+  const open = () => streamComponent(call);
+  return reconnect ? reconnectStream(open, reconnect, call.signal, scheduler) : open();
+}
+
+/**
+ * Apply the registry's backpressure strategy to a component stream,
+ * reporting dropped frames to onDrop and the metrics.
+ */
+function bufferFrames(
+  stream: AsyncIterable<ComponentOutput>,
+  type: string,
+  path: string,
+  options: StreamingRegistryOptions
+): AsyncIterable<ComponentOutput> {
+  const { backpressure = "latest", bufferSize = 16, onDrop } = options;
+  const metrics = registryMetrics(options.metrics);
+  let total = 0;
+
+  return withBackpressure(stream, {
+    strategy: backpressure,
+    bufferSize,
+    onDrop(count) {
+      total += count;
+      metrics?.recordDrop(type, count);
+      onDrop?.({ type, path, count, total });
+    },
+  });
+}
+
+/**
+ * Validate every frame of a component stream, failing on the first malformed one.
+ */
+async function* validateFrames(
+  type: string,
+  stream: AsyncIterable<ComponentOutput>
+): AsyncIterable<ComponentOutput> {
+  for await (const output of stream) {
+    yield assertComponentOutput(type, output);
+  }
+}
+
 // =============================================================================
 // Dual Registry (Sync + Streaming)
 // =============================================================================
@@ -178,6 +252,12 @@ export interface DualRegistry {
     ctx: RenderContext,
     preferStreaming?: boolean
   ): AsyncIterable<ComponentOutput>;
+
+  /** Resolve the component type of a data node, from the registry options */
+  resolveType?: TypeResolver;
+
+  /** Size used when a render is given none, from the registry options */
+  defaultSize?: Size;
 }
 
 /**
@@ -190,39 +270,65 @@ export interface DualRegistry {
  * @returns DualRegistry instance
  */
 export function createDualRegistry(
-  callSync: <T>(path: string[], input: unknown) => Promise<T>,
+  callSync: <T>(path: string[], input: unknown, options?: CallOptions) => Promise<T>,
   callStreaming: StreamingProcedureCaller,
   isStreaming: (type: string) => boolean,
   options: StreamingRegistryOptions = {}
 ): DualRegistry {
-  const { namespace } = options;
-
-  function buildPath(type: string): string[] {
-    const basePath = ["components"];
-    if (namespace) {
-      basePath.push(namespace);
-    }
-    basePath.push(type);
-    return basePath;
-  }
+  const {
+    middleware = [],
+    streamingMiddleware = [],
+    validate = false,
+    resolveType,
+    defaultSize,
+  } = options;
+  const metrics = registryMetrics(options.metrics);
+  const resolver = createPathResolver(options);
+
+  const callComponent = composeMiddleware(middleware, async (call: ComponentCall) => {
+    const result = await callSync<ComponentOutput>(call.path, call.input, { signal: call.signal });
+    return validate ? assertComponentOutput(call.type, result) : result;
+  });
+  const streamComponent = composeStreamingMiddleware(streamingMiddleware, (call: ComponentCall) => {
+    const stream = callStreaming<ComponentOutput>(call.path, call.input, { signal: call.signal });
+    return validate ? validateFrames(call.type, stream) : stream;
+  });
 
   // Create sync renderer
   function createSyncRenderer(type: string) {
-    const path = buildPath(type);
+    const policy = resolveCallPolicy(options, parseComponentType(type).name);
+
     return async (ctx: RenderContext): Promise<ComponentOutput> => {
-      return callSync<ComponentOutput>(path, {
+      const path = await resolver.resolve(resolver.selectVersion(type, ctx));
+      const input = {
         data: ctx.data,
         size: ctx.size,
         path: ctx.path,
         depth: ctx.depth,
-      });
+      };
+
+      try {
+        return await measureCall(metrics, type, ctx.signal, () =>
+          callWithPolicy(
+            type,
+            (signal) => callComponent({ type, path, input, signal }),
+            policy,
+            ctx.signal
+          )
+        );
+      } catch (error) {
+        if (!(error instanceof TimeoutError)) {
+          throw error;
+        }
+        return timeoutOutput(error, ctx.path);
+      }
     };
   }
 
   // Create streaming renderer
   function createStreamingRenderer(type: string): StreamingComponentRenderer {
-    const path = buildPath(type);
-    return async function* (ctx: RenderContext) {
+    const render = async function* (ctx: RenderContext): AsyncIterable<ComponentOutput> {
+      const path = await resolver.resolve(resolver.selectVersion(type, ctx));
       const input = {
         data: ctx.data,
         size: ctx.size,
@@ -230,10 +336,12 @@ export function createDualRegistry(
         depth: ctx.depth,
       };
 
-      for await (const output of callStreaming<ComponentOutput>(path, input)) {
-        yield output;
-      }
+      const call: ComponentCall = { type, path, input, signal: ctx.signal };
+      const stream = connectStream(streamComponent, call, ctx.path, options);
+      yield* bufferFrames(abortable(stream, ctx.signal), type, ctx.path, options);
     };
+
+    return metrics ? (ctx) => measureStream(metrics, type, render(ctx)) : render;
   }
 
   const syncCache = new Map<string, (ctx: RenderContext) => Promise<ComponentOutput>>();
@@ -287,6 +395,9 @@ export function createDualRegistry(
         throw new Error(`No renderer found for component type: ${type}`);
       }
     },
+
+    ...(resolveType ? { resolveType } : {}),
+    ...(defaultSize ? { defaultSize } : {}),
   };
 }
 
@@ -296,126 +407,37 @@ export function createDualRegistry(
 
 /**
  * Merge multiple component streams into one.
- * Yields outputs from all streams as they arrive.
+ * Yields outputs from all streams as they arrive, without dropping any.
+ * Pass `{ signal }` as the last argument to stop on abort.
  */
-export async function* mergeStreams(
+export function mergeStreams(
   ...streams: AsyncIterable<ComponentOutput>[]
+): AsyncIterable<ComponentOutput>;
+export function mergeStreams(
+  ...args: [...streams: AsyncIterable<ComponentOutput>[], options: StreamOperatorOptions]
+): AsyncIterable<ComponentOutput>;
+export async function* mergeStreams(
+  ...args: (AsyncIterable<ComponentOutput> | StreamOperatorOptions)[]
 ): AsyncIterable<ComponentOutput> {
-  // Create async iterators for all streams
-  const iterators = streams.map((s) => s[Symbol.asyncIterator]());
-  const active = new Set(iterators);
-
-  // Keep polling until all streams are done
-  while (active.size > 0) {
-    const promises = Array.from(active).map(async (iter) => {
-      const result = await iter.next();
-      return { iter, result };
-    });
-
-    const { iter, result } = await Promise.race(promises);
-
-    if (result.done) {
-      active.delete(iter);
-    } else {
-      yield result.value;
-    }
-  }
-}
-
-/**
- * Throttle a component stream to emit at most once per interval.
- */
-export async function* throttleStream(
-  stream: AsyncIterable<ComponentOutput>,
-  intervalMs: number
-): AsyncIterable<ComponentOutput> {
-  let lastEmit = 0;
-  let pending: ComponentOutput | null = null;
+  const { streams, options } = splitStreamArgs(args);
 
-  for await (const output of stream) {
-    const now = Date.now();
-
-    if (now - lastEmit >= intervalMs) {
-      yield output;
-      lastEmit = now;
-      pending = null;
-    } else {
-      pending = output;
-    }
-  }
-
-  // Emit final pending output
-  if (pending) {
-    yield pending;
+  for await (const [, output] of mergeEntries(streams.entries(), options.signal)) {
+    yield output;
   }
 }
 
 /**
- * Debounce a component stream to emit only after a quiet period.
+ * Separate trailing stream operator options from a list of streams.
  */
-export async function* debounceStream(
-  stream: AsyncIterable<ComponentOutput>,
-  waitMs: number
-): AsyncIterable<ComponentOutput> {
-  let latest: ComponentOutput | null = null;
-  let timer: TimerId | null = null;
-
-  const outputs: ComponentOutput[] = [];
-  let resolve: (() => void) | null = null;
-
-  // Process the stream
-  const processor = (async () => {
-    for await (const output of stream) {
-      latest = output;
-
-      if (timer) {
-        clearTimer(timer);
-      }
-
-      timer = setTimer(() => {
-        if (latest) {
-          outputs.push(latest);
-          latest = null;
-          if (resolve) {
-            resolve();
-            resolve = null;
-          }
-        }
-      }, waitMs);
-    }
-
-    // Final emit
-    if (timer) {
-      clearTimer(timer);
-    }
-    if (latest) {
-      outputs.push(latest);
-      // Use type assertion - resolve is set by the while loop below
-      const currentResolve = resolve as (() => void) | null;
-      if (currentResolve) {
-        currentResolve();
-      }
-    }
-  })();
-
-  // Yield outputs as they become available
-  while (true) {
-    if (outputs.length > 0) {
-      yield outputs.shift()!;
-    } else {
-      await new Promise<void>((r) => {
-        resolve = r;
-      });
-
-      // Check if processor is done
-      const isDone = await Promise.race([
-        processor.then(() => true),
-        Promise.resolve(false),
-      ]);
-
-      if (isDone && outputs.length === 0) {
-        break;
-      }
-    }
+function splitStreamArgs(
+  args: (AsyncIterable<ComponentOutput> | StreamOperatorOptions)[]
+): { streams: AsyncIterable<ComponentOutput>[]; options: StreamOperatorOptions } {
+  const last = args[args.length - 1];
+  if (last !== undefined && !(Symbol.asyncIterator in last)) {
+    return {
+      streams: args.slice(0, -1) as AsyncIterable<ComponentOutput>[],
+      options: last,
+    };
   }
+  return { streams: args as AsyncIterable<ComponentOutput>[], options: {} };
 }
@@ -0,0 +1,403 @@
+/**
+ * Render Tracing
+ *
+ * Records a span per component render, named after the component type and
+ * render path, and nested like the render tree. Finished traces go to a pluggable exporter,
+ * and can be converted to OpenTelemetry's OTLP/JSON shape.
+ */
+
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type {
+  RenderContextOptions,
+  RenderSpan,
+  SpanAttributeValue,
+  SpanEvent,
+  SpanExporter,
+  SpanStatus,
+  Tracer,
+  TracerOptions,
+} from "./types.js";
+import type { RenderTarget } from "./registry.js";
+import { getErrorMessage, isErrorOutput } from "./boundary.js";
+
+// =============================================================================
+// Tracer
+// =============================================================================
+
+interface TraceState {
+  spans: RenderSpan[];
+  open: number;
+}
+
+/**
+ * Create a tracer for render spans.
+ *
+ * A trace is exported once every span in it has ended.
+ *
+ * @param options - Tracer options
+ * @returns Tracer instance
+ *
+ * @example
+ * ```typescript
+ * const exporter = createOtlpExporter((body) =>
+ *   fetch("http://collector:4318/v1/traces", { method: "POST", body: JSON.stringify(body) })
+ * );
+ * const tracer = createTracer({ exporter });
+ *
+ * await renderTree(registry, page, size, { tracer });
+ * ```
+ */
+export function createTracer(options: TracerOptions = {}): Tracer {
+  const { exporter } = options;
+  const traces = new Map<string, TraceState>();
+  const exports = new Set<Promise<void>>();
+
+  function finish(span: RenderSpan): void {
+    const trace = traces.get(span.traceId);
+    if (!trace || --trace.open > 0) {
+      return;
+    }
+
+    traces.delete(span.traceId);
+    if (!exporter) {
+      return;
+    }
+
+    const pending = Promise.resolve()
+      .then(() => exporter.export(trace.spans))
+      .catch(() => {
+        // Exporter failures must never break rendering
+      })
+      .finally(() => exports.delete(pending));
+    exports.add(pending);
+  }
+
+  return {
+    startSpan(name, spanOptions = {}): RenderSpan {
+      const { parent, attributes = {} } = spanOptions;
+      const traceId = parent?.traceId ?? randomHex(32);
+
+      let trace = traces.get(traceId);
+      if (!trace) {
+        trace = { spans: [], open: 0 };
+        traces.set(traceId, trace);
+      }
+
+      const span = createSpan(name, traceId, parent?.spanId, attributes, finish);
+      trace.spans.push(span);
+      trace.open++;
+      return span;
+    },
+
+    async flush(): Promise<void> {
+      await Promise.all(exports);
+    },
+  };
+}
+
+/**
+ * Create a span that reports to `onEnd` when ended.
+ */
+function createSpan(
+  name: string,
+  traceId: string,
+  parentSpanId: string | undefined,
+  attributes: Record<string, SpanAttributeValue>,
+  onEnd: (span: RenderSpan) => void
+): RenderSpan {
+  const events: SpanEvent[] = [];
+  let status: SpanStatus = { code: "unset" };
+  let endTime: number | undefined;
+
+  const span: RenderSpan = {
+    traceId,
+    spanId: randomHex(16),
+    parentSpanId,
+    name,
+    startTime: Date.now(),
+    get endTime() {
+      return endTime;
+    },
+    attributes: { ...attributes },
+    events,
+    get status() {
+      return status;
+    },
+    setAttribute(key, value) {
+      (span.attributes as Record<string, SpanAttributeValue>)[key] = value;
+    },
+    addEvent(eventName, eventAttributes = {}) {
+      events.push({ name: eventName, time: Date.now(), attributes: eventAttributes });
+    },
+    setStatus(next) {
+      status = next;
+    },
+    end() {
+      if (endTime !== undefined) {
+        return;
+      }
+      endTime = Date.now();
+      onEnd(span);
+    },
+  };
+
+  return span;
+}
+
+/**
+ * Random lowercase hex string (IDs only need to be unique, not secure).
+ */
+function randomHex(length: number): string {
+  let result = "";
+  while (result.length < length) {
+    result += Math.floor(Math.random() * 0x100000000)
+      .toString(16)
+      .padStart(8, "0");
+  }
+  return result.slice(0, length);
+}
+
+// =============================================================================
+// Render Spans (shared with registry and renderTree)
+// =============================================================================
+
+/**
+ * Start the span of a render node, named `${type} ${path}` (e.g.
+ * "user-card root.children[0]").
+ */
+export function startRenderSpan(
+  tracer: Tracer,
+  type: string,
+  target: RenderTarget,
+  parent: RenderSpan | undefined
+): RenderSpan {
+  return tracer.startSpan(`${type} ${target.path}`, {
+    parent,
+    attributes: {
+      "splay.component.type": type,
+      "splay.path": target.path,
+      "splay.depth": target.depth,
+    },
+  });
+}
+
+/**
+ * Mark a span as failed, without ending it.
+ */
+export function failSpan(span: RenderSpan, error: unknown): void {
+  const message = getErrorMessage(error);
+  span.addEvent("exception", { "exception.message": message });
+  span.setStatus({ code: "error", message });
+}
+
+/**
+ * Set a span's status from a render output: boundary fallbacks
+ * (`__error__` outputs) are errors.
+ */
+export function setOutputStatus(span: RenderSpan, output: ComponentOutput): void {
+  span.setStatus(
+    isErrorOutput(output)
+      ? { code: "error", message: String(output.props["message"]) }
+      : { code: "ok" }
+  );
+}
+
+/**
+ * Run a render inside a span. The render receives options whose `span` is
+ * the new span, so child renders nest under it.
+ */
+export async function traceRender(
+  type: string,
+  target: RenderTarget,
+  options: RenderContextOptions,
+  render: (options: RenderContextOptions) => Promise<ComponentOutput>
+): Promise<ComponentOutput> {
+  const { tracer } = options;
+  if (!tracer) {
+    return render(options);
+  }
+
+  const span = startRenderSpan(tracer, type, target, options.span);
+  try {
+    const output = await render({ ...options, span });
+    setOutputStatus(span, output);
+    return output;
+  } catch (error) {
+    failSpan(span, error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+// =============================================================================
+// OTLP/JSON
+// =============================================================================
+
+/**
+ * Attribute in OTLP/JSON form.
+ */
+export interface OtlpAttribute {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+}
+
+/**
+ * Span in OTLP/JSON form.
+ */
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** SPAN_KIND_INTERNAL */
+  kind: 1;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  events: { timeUnixNano: string; name: string; attributes: OtlpAttribute[] }[];
+  /** 0 = unset, 1 = ok, 2 = error */
+  status: { code: 0 | 1 | 2; message?: string };
+}
+
+/**
+ * OTLP/JSON trace export request body (`POST /v1/traces`).
+ */
+export interface OtlpTraceData {
+  resourceSpans: {
+    resource: { attributes: OtlpAttribute[] };
+    scopeSpans: { scope: { name: string }; spans: OtlpSpan[] }[];
+  }[];
+}
+
+const STATUS_CODES = { unset: 0, ok: 1, error: 2 } as const;
+
+/**
+ * Convert spans to an OTLP/JSON export request body.
+ *
+ * @param spans - Finished spans
+ * @param serviceName - `service.name` resource attribute
+ */
+export function toOtlpJson(
+  spans: readonly RenderSpan[],
+  serviceName: string = "client-splay"
+): OtlpTraceData {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toOtlpAttributes({ "service.name": serviceName }) },
+        scopeSpans: [
+          {
+            scope: { name: "@mark1russell7/client-splay" },
+            spans: spans.map(toOtlpSpan),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toOtlpSpan(span: RenderSpan): OtlpSpan {
+  const { status } = span;
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...(span.parentSpanId !== undefined ? { parentSpanId: span.parentSpanId } : {}),
+    name: span.name,
+    kind: 1,
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+    attributes: toOtlpAttributes(span.attributes),
+    events: span.events.map((event) => ({
+      timeUnixNano: toUnixNano(event.time),
+      name: event.name,
+      attributes: toOtlpAttributes(event.attributes),
+    })),
+    status: {
+      code: STATUS_CODES[status.code],
+      ...(status.message !== undefined ? { message: status.message } : {}),
+    },
+  };
+}
+
+function toOtlpAttributes(attributes: Readonly<Record<string, SpanAttributeValue>>): OtlpAttribute[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+}
+
+/**
+ * Milliseconds since the epoch as a nanosecond string (64-bit safe).
+ */
+function toUnixNano(ms: number): string {
+  return `${Math.round(ms)}000000`;
+}
+
+// =============================================================================
+// Exporters
+// =============================================================================
+
+/**
+ * Exporter that keeps finished spans in memory, for tests and debugging.
+ */
+export interface MemoryExporter extends SpanExporter {
+  /** Every exported span, in export order */
+  spans(): RenderSpan[];
+  /** Forget exported spans */
+  clear(): void;
+}
+
+/**
+ * Create an exporter that keeps finished spans in memory.
+ *
+ * @example
+ * ```typescript
+ * const exporter = createMemoryExporter();
+ * await renderTree(registry, page, size, { tracer: createTracer({ exporter }) });
+ *
+ * // The slowest render
+ * const [slowest] = exporter.spans().sort(
+ *   (a, b) => (b.endTime! - b.startTime) - (a.endTime! - a.startTime)
+ * );
+ * ```
+ */
+export function createMemoryExporter(): MemoryExporter {
+  let exported: RenderSpan[] = [];
+
+  return {
+    export(spans) {
+      exported.push(...spans);
+    },
+    spans() {
+      return [...exported];
+    },
+    clear() {
+      exported = [];
+    },
+  };
+}
+
+/**
+ * Create an exporter that sends each finished trace as an OTLP/JSON body.
+ *
+ * @param send - Delivers the body, e.g. POSTs it to an OTLP/HTTP collector
+ * @param options - `serviceName` for the resource attributes
+ */
+export function createOtlpExporter(
+  send: (body: OtlpTraceData) => void | Promise<unknown>,
+  options: { serviceName?: string } = {}
+): SpanExporter {
+  return {
+    async export(spans) {
+      await send(toOtlpJson(spans, options.serviceName));
+    },
+  };
+}
@@ -0,0 +1,605 @@
+/**
+ * Render Tree
+ *
+ * Orchestrates a full recursive render of a nested data tree into a
+ * finished ComponentOutput tree, using any splay-compatible registry.
+ * The streaming variant keeps the tree live: it re-emits the tree whenever
+ * any node produces a new frame, starting and stopping child streams as
+ * their parents' frames change.
+ */
+
+import type { ComponentOutput, Size } from "@mark1russell7/client/components";
+import type { Registry, RenderContextOptions, RenderSpan, RenderTreeOptions } from "./types.js";
+import type { DualRegistry } from "./streaming.js";
+import {
+  callRenderer,
+  createRenderContext,
+  componentTypeOf,
+  guardRender,
+  invokeRenderer,
+  type RenderTarget,
+} from "./registry.js";
+import { childPath } from "./path.js";
+import { failSpan, setOutputStatus, startRenderSpan, traceRender } from "./tracing.js";
+import { checkRenderLoop, findRenderLoop, withAncestor } from "./loop.js";
+import { defaultGetLayout, layoutChildren } from "./layout.js";
+import { createLinkedController } from "./abort.js";
+import { stableHash } from "./cache.js";
+
+// =============================================================================
+// Render Tree
+// =============================================================================
+
+/**
+ * Render a nested data tree into a complete descriptor tree.
+ *
+ * Each data node is rendered through the registry. Its data children
+ * (by default `data.children`) are then rendered recursively and appended
+ * to the children returned by the component itself.
+ *
+ * Children are sized from the parent's layout (`props.layout` of its
+ * output, else `layout` of its data) and their `layoutItem` hints, else
+ * get the parent's size. Without a root size, the registry's defaultSize
+ * is used.
+ *
+ * With error boundaries, a failed node and its subtree are replaced by the
+ * boundary's fallback (or an `__error__` descriptor) while siblings render.
+ *
+ * @param registry - Registry to resolve renderers from
+ * @param data - Root data node
+ * @param size - Size available to the root (default: the registry's defaultSize)
+ * @param options - Tree render options
+ * @returns The complete descriptor tree
+ *
+ * @example
+ * ```typescript
+ * const registry = createClientRegistry(call, { namespace: "ui" });
+ *
+ * const tree = await renderTree(registry, {
+ *   type: "dashboard",
+ *   children: [
+ *     { type: "user-card", userId: 1 },
+ *     { type: "user-card", userId: 2 },
+ *   ],
+ * }, { width: 1200, height: 800 }, { concurrency: 4 });
+ * ```
+ */
+export async function renderTree(
+  registry: Registry,
+  data: unknown,
+  size: Size | undefined,
+  options: RenderTreeOptions = {}
+): Promise<ComponentOutput> {
+  const { path = "root", concurrency = Infinity, getChildren = defaultGetChildren } = options;
+
+  async function renderNode(
+    nodeData: unknown,
+    nodeSize: Size,
+    nodePath: string,
+    depth: number,
+    nodeOptions: RenderContextOptions
+  ): Promise<ComponentOutput> {
+    const target: RenderTarget = { data: nodeData, size: nodeSize, path: nodePath, depth };
+    const resolved = componentTypeOf(registry, nodeData, nodeOptions);
+    const type = resolved ?? "unknown";
+
+    // The span and the boundary cover the node and its rendered data children
+    return traceRender(type, target, nodeOptions, (traced) =>
+      guardRender(registry, target, traced, async () => {
+        // A looping node renders no data children
+        const loop = checkRenderLoop(type, target, traced);
+        if (loop) {
+          return loop;
+        }
+
+        // The node is the ancestor of its renderer's ctx.render calls and of
+        // its data children alike
+        const childOptions = withAncestor(traced, type, target);
+        const output = resolved
+          ? await callRenderer(registry, resolved, target, childOptions)
+          : await invokeRenderer(registry, target, traced);
+
+        const childData = getChildren(nodeData, output);
+        if (!childData || childData.length === 0) {
+          return output;
+        }
+
+        const sizes = await sizeChildren(nodeData, output, nodeSize, childData, options);
+        const children = await mapWithConcurrency(childData, concurrency, (child, index) =>
+          renderNode(child, sizes[index]!, childPath(nodePath, index), depth + 1, childOptions)
+        );
+
+        return {
+          ...output,
+          children: [...(output.children ?? []), ...children],
+        };
+      })
+    );
+  }
+
+  return renderNode(data, rootSize(registry, size), path, 0, options);
+}
+
+// =============================================================================
+// Streaming Render Tree
+// =============================================================================
+
+/**
+ * A live node of a streaming tree render.
+ */
+interface TreeNode extends RenderTarget {
+  parent: TreeNode | undefined;
+  children: TreeNode[];
+  /** Options for rendering the node: its span, signal and ancestors */
+  options: RenderContextOptions;
+  /** Span covering the node's stream, when tracing */
+  span: RenderSpan | undefined;
+  /** Stop the node's stream and any render in flight */
+  abort: () => void;
+  /** Detach the node's signal from its parent's */
+  detach: () => void;
+  iterator: AsyncIterator<ComponentOutput>;
+  /** Latest output of the node's own renderer */
+  output: ComponentOutput | undefined;
+  /** Whether the node has produced output or finished */
+  settled: boolean;
+  /** The node's subtree, reused until the node or a descendant changes */
+  assembled: ComponentOutput | undefined;
+  /** Hash of the node's data, computed when first compared */
+  dataHash: string | undefined;
+}
+
+const NULL_OUTPUT: ComponentOutput = { type: "__null__", props: {} };
+
+/**
+ * Render a nested data tree with a dual registry, emitting the complete
+ * descriptor tree whenever any node produces a new frame.
+ *
+ * Sync components render once; streaming components (per the dual
+ * registry's isStreaming) keep their latest frame. A node's children are
+ * derived from its latest output (by default `props.childData`, else the
+ * data's `children`) each time it emits. Children are matched by the `key`
+ * of their data (or of their output), unkeyed ones by their order: children
+ * keeping their data and size keep streaming, even when they move, new
+ * children are started and removed ones are stopped. A moved child keeps
+ * the render path it started with. Unchanged subtrees are reused, so
+ * consumers can skip them by identity.
+ *
+ * A tree is emitted once every node has produced its first output, and then
+ * on every frame, waiting again whenever a frame starts new children. A
+ * node whose stream ends without output renders as `__null__`. Children are
+ * sized from the layout of their parent's latest output, as in renderTree.
+ *
+ * Error boundaries apply per node, including to failed streams. With a
+ * tracer, each node's span lasts until its stream ends or is stopped and
+ * records a "frame" event per output.
+ *
+ * @param dual - Dual registry resolving sync and streaming renderers
+ * @param data - Root data node
+ * @param size - Size available to the root (default: the dual registry's defaultSize)
+ * @param options - Tree render options
+ * @returns Stream of complete descriptor trees
+ *
+ * @example
+ * ```typescript
+ * const dual = createDualRegistry(call, stream, (type) => type === "ticker" || type === "watchlist");
+ *
+ * // "watchlist" streams frames whose props.childData lists the tickers to show;
+ * // each ticker is itself a stream, started and stopped as the list changes
+ * for await (const tree of renderTreeStream(dual, { type: "watchlist", userId: 1 }, { width: 1200, height: 800 })) {
+ *   send(tree);
+ * }
+ * ```
+ */
+export async function* renderTreeStream(
+  dual: DualRegistry,
+  data: unknown,
+  size: Size | undefined,
+  options: RenderTreeOptions = {}
+): AsyncIterable<ComponentOutput> {
+  const { path = "root", getChildren = defaultGetChildren, tracer } = options;
+
+  const registry = dualAsRegistry(dual);
+
+  // Reads of live nodes; settled ones queue up in order, so busy nodes
+  // don't pile reactions onto the pending read of an idle one
+  type Pulled = { node: TreeNode; result: IteratorResult<ComponentOutput> };
+  const reading = new Set<TreeNode>();
+  const ready: Pulled[] = [];
+  let failure: { error: unknown } | undefined;
+  let wake: (() => void) | undefined;
+  let unsettled = 0;
+
+  const notify = (): void => {
+    const resolve = wake;
+    wake = undefined;
+    resolve?.();
+  };
+
+  const pull = (node: TreeNode): void => {
+    reading.add(node);
+    node.iterator.next().then(
+      (result) => {
+        // Ignore reads of nodes stopped meanwhile
+        if (reading.delete(node)) {
+          ready.push({ node, result });
+          notify();
+        }
+      },
+      (error: unknown) => {
+        if (reading.has(node)) {
+          failure ??= { error };
+          notify();
+        }
+      }
+    );
+  };
+
+  /**
+   * Create a node and start its render.
+   */
+  function start(
+    nodeData: unknown,
+    nodeSize: Size,
+    nodePath: string,
+    depth: number,
+    parent: TreeNode | undefined,
+    parentOptions: RenderContextOptions
+  ): TreeNode {
+    const target: RenderTarget = { data: nodeData, size: nodeSize, path: nodePath, depth };
+    const type = componentTypeOf(registry, nodeData, parentOptions) ?? "unknown";
+    const span = tracer ? startRenderSpan(tracer, type, target, parentOptions.span) : undefined;
+    const { controller, dispose } = createLinkedController(parentOptions.signal);
+
+    const nodeOptions: RenderContextOptions = {
+      ...parentOptions,
+      signal: controller.signal,
+      ...(span ? { span } : {}),
+    };
+
+    const node: TreeNode = {
+      ...target,
+      parent,
+      children: [],
+      options: nodeOptions,
+      span,
+      abort: () => controller.abort(),
+      detach: dispose,
+      iterator: renderNodeStream(target, nodeOptions, span)[Symbol.asyncIterator](),
+      output: undefined,
+      settled: false,
+      assembled: undefined,
+      dataHash: undefined,
+    };
+    unsettled++;
+    pull(node);
+    return node;
+  }
+
+  /**
+   * Stop a node and its subtree.
+   */
+  function stop(node: TreeNode): void {
+    node.children.forEach(stop);
+    reading.delete(node);
+    const queued = ready.findIndex((pulled) => pulled.node === node);
+    if (queued !== -1) {
+      ready.splice(queued, 1);
+    }
+    if (!node.settled) {
+      unsettled--;
+    }
+    node.abort();
+    node.detach();
+    // A pending next() settles first, then the stream closes and ends its span
+    void Promise.resolve(node.iterator.return?.()).catch(() => {});
+  }
+
+  /**
+   * Bring a node's children in line with its latest output.
+   */
+  async function reconcile(node: TreeNode): Promise<void> {
+    const type = componentTypeOf(registry, node.data, node.options) ?? "unknown";
+
+    // A looping node gets no children; rendering it reports the loop
+    const childData = findRenderLoop(type, node, node.options)
+      ? []
+      : getChildren(node.data, node.output) ?? [];
+    const sizes = await sizeChildren(node.data, node.output, node.size, childData, options);
+    const childOptions = withAncestor(node.options, type, node);
+
+    // Match children by key, then unkeyed ones by their order
+    const previous = new Map(
+      matchKeys(node.children.map((child) => keyOf(child.data) ?? child.output?.key)).map(
+        (key, index) => [key, node.children[index]!]
+      )
+    );
+    const keys = matchKeys(childData.map(keyOf));
+
+    let changed = childData.length !== node.children.length;
+    const children = childData.map((child, index) => {
+      const childSize = sizes[index]!;
+      const existing = previous.get(keys[index]!);
+      previous.delete(keys[index]!);
+      if (existing && sameRender(existing, child, childSize)) {
+        changed ||= existing !== node.children[index];
+        return existing;
+      }
+      if (existing) {
+        stop(existing);
+      }
+      changed = true;
+      return start(child, childSize, childPath(node.path, index), node.depth + 1, node, childOptions);
+    });
+    previous.forEach(stop);
+
+    if (changed) {
+      node.children = children;
+      invalidate(node);
+    }
+  }
+
+  /**
+   * Stream the outputs of one node, replacing failures via error boundaries.
+   */
+  async function* renderNodeStream(
+    node: RenderTarget,
+    nodeOptions: RenderContextOptions,
+    span: RenderSpan | undefined
+  ): AsyncIterable<ComponentOutput> {
+    try {
+      const type = componentTypeOf(registry, node.data, nodeOptions);
+      if (!type || !dual.streaming.has(type)) {
+        const output = await guardRender(registry, node, nodeOptions, () =>
+          invokeRenderer(registry, node, nodeOptions)
+        );
+        if (span) {
+          setOutputStatus(span, output);
+        }
+        yield output;
+        return;
+      }
+
+      const loop = checkRenderLoop(type, node, nodeOptions);
+      if (loop) {
+        yield loop;
+        return;
+      }
+
+      const ctx = createRenderContext(
+        registry,
+        node.data,
+        node.size,
+        node.path,
+        node.depth,
+        withAncestor(nodeOptions, type, node)
+      );
+      for await (const output of dual.render(type, ctx)) {
+        span?.addEvent("frame");
+        yield output;
+      }
+      span?.setStatus({ code: "ok" });
+    } catch (error) {
+      // A stopped node ends quietly
+      if (nodeOptions.signal?.aborted) {
+        return;
+      }
+      if (span) {
+        failSpan(span, error);
+      }
+      // Route stream failures through the same error boundaries
+      yield await guardRender(registry, node, nodeOptions, () => Promise.reject(error));
+    } finally {
+      span?.end();
+    }
+  }
+
+  function invalidate(node: TreeNode | undefined): void {
+    for (let current = node; current; current = current.parent) {
+      current.assembled = undefined;
+    }
+  }
+
+  function assemble(node: TreeNode): ComponentOutput {
+    if (node.assembled) {
+      return node.assembled;
+    }
+    const output = node.output ?? NULL_OUTPUT;
+    node.assembled =
+      node.children.length === 0
+        ? output
+        : { ...output, children: [...(output.children ?? []), ...node.children.map(assemble)] };
+    return node.assembled;
+  }
+
+  const root = start(data, rootSize(registry, size), path, 0, undefined, options);
+
+  try {
+    while (reading.size > 0 || ready.length > 0) {
+      if (failure) {
+        throw failure.error;
+      }
+      const pulled = ready.shift();
+      if (!pulled) {
+        await new Promise<void>((resolve) => (wake = resolve));
+        continue;
+      }
+      const { node, result } = pulled;
+
+      const wasSettled = node.settled;
+      if (!wasSettled) {
+        node.settled = true;
+        unsettled--;
+      }
+
+      if (result.done) {
+        node.detach();
+        // A node that never produced output still renders its data children
+        if (wasSettled) {
+          continue;
+        }
+      } else {
+        node.output = result.value;
+        pull(node);
+      }
+
+      invalidate(node);
+      await reconcile(node);
+
+      // Emit once every live node has produced output (or finished)
+      if (unsettled === 0) {
+        yield assemble(root);
+      }
+    }
+  } finally {
+    // Release node streams still running (don't wait on pending next() calls)
+    stop(root);
+  }
+}
+
+/**
+ * Whether a live node already renders the given child data at the given size.
+ * Equal data in a new object is adopted, so the next frame can compare by
+ * identity.
+ */
+function sameRender(node: TreeNode, data: unknown, size: Size): boolean {
+  if (node.size.width !== size.width || node.size.height !== size.height) {
+    return false;
+  }
+  if (node.data === data) {
+    return true;
+  }
+  node.dataHash ??= stableHash(node.data);
+  if (node.dataHash !== stableHash(data)) {
+    return false;
+  }
+  node.data = data;
+  return true;
+}
+
+/**
+ * The `key` of a data child, if it has one.
+ */
+function keyOf(data: unknown): string | number | undefined {
+  if (data === null || typeof data !== "object") {
+    return undefined;
+  }
+  const key = (data as Record<string, unknown>)["key"];
+  return typeof key === "string" || typeof key === "number" ? key : undefined;
+}
+
+/**
+ * Match keys of a child list: the key when set, else the order among
+ * unkeyed siblings. Repeated keys are told apart by occurrence.
+ */
+function matchKeys(keys: readonly (string | number | undefined)[]): string[] {
+  const seen = new Map<string, number>();
+  let unkeyed = 0;
+
+  return keys.map((key) => {
+    const base = key !== undefined ? `k:${String(key)}` : `i:${unkeyed++}`;
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    return occurrence === 0 ? base : `${base}#${occurrence}`;
+  });
+}
+
+/**
+ * View the sync side of a dual registry as a splay-compatible Registry.
+ */
+function dualAsRegistry(dual: DualRegistry): Registry {
+  return {
+    get: (type: string) => dual.sync.get(type),
+    has: (type: string) => dual.sync.has(type),
+    register(type: string): void {
+      throw new Error(
+        `Cannot register renderers on a DualRegistry. Define a component procedure for ${type}.`
+      );
+    },
+    ...(dual.resolveType ? { resolveType: dual.resolveType } : {}),
+    ...(dual.defaultSize ? { defaultSize: dual.defaultSize } : {}),
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Size of the root node: the given size, else the registry's defaultSize.
+ */
+function rootSize(registry: Registry, size: Size | undefined): Size {
+  const resolved = size ?? registry.defaultSize;
+  if (!resolved) {
+    throw new Error("No size given for the root, and the registry has no defaultSize");
+  }
+  return resolved;
+}
+
+/**
+ * Sizes of a node's data children: from `childSize` if given, else from the
+ * node's layout, else the node's own size.
+ */
+async function sizeChildren(
+  data: unknown,
+  output: ComponentOutput | undefined,
+  size: Size,
+  children: readonly unknown[],
+  options: RenderTreeOptions
+): Promise<Size[]> {
+  const { childSize, getLayout = defaultGetLayout, measure } = options;
+  if (childSize) {
+    return children.map((child, index) => childSize(size, child, index));
+  }
+
+  const layout = getLayout(data, output);
+  return layout ? layoutChildren(layout, size, children, measure) : children.map(() => size);
+}
+
+/**
+ * Default child extraction: an array-valued `childData` prop of the output,
+ * else an array-valued `children` property of the data.
+ */
+function defaultGetChildren(
+  data: unknown,
+  output: ComponentOutput | undefined
+): readonly unknown[] | undefined {
+  const fromOutput = output?.props["childData"];
+  if (Array.isArray(fromOutput)) {
+    return fromOutput;
+  }
+  if (data === null || typeof data !== "object") {
+    return undefined;
+  }
+
+  const children = (data as Record<string, unknown>)["children"];
+  return Array.isArray(children) ? children : undefined;
+}
+
+/**
+ * Map over items with at most `limit` mapper calls in flight.
+ * Results keep the order of the input.
+ */
+async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (limit >= items.length) {
+    return Promise.all(items.map(mapper));
+  }
+
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await mapper(items[index]!, index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, limit) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
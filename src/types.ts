@@ -5,6 +5,87 @@
  */
 
 import type { ComponentOutput, Size } from "@mark1russell7/client";
+import type { ComponentDirectory } from "./discovery.js";
+
+// =============================================================================
+// Cancellation
+// =============================================================================
+
+/**
+ * Minimal AbortSignal shape (portable across browser and Node).
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  readonly reason?: unknown;
+  addEventListener(type: "abort", listener: () => void, options?: { once?: boolean }): void;
+  removeEventListener(type: "abort", listener: () => void): void;
+}
+
+/**
+ * Options passed to procedure callers alongside the input.
+ */
+export interface CallOptions {
+  /** Signal for cancelling the call or closing the stream */
+  signal?: AbortSignalLike | undefined;
+}
+
+/**
+ * Options for stream utilities.
+ */
+export interface StreamOperatorOptions {
+  /** Stop the stream and release its upstream iterators on abort */
+  signal?: AbortSignalLike | undefined;
+}
+
+/**
+ * Clock and timers used by time-based utilities. The default uses the real
+ * clock; a virtual scheduler lets tests control time.
+ */
+export interface Scheduler {
+  /** Current time in milliseconds */
+  now(): number;
+  /** Run a callback after a delay; returns a handle for clearTimeout */
+  setTimeout(callback: () => void, ms: number): unknown;
+  /** Cancel a callback scheduled with setTimeout */
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Options for time-based stream operators.
+ */
+export interface TimeOperatorOptions extends StreamOperatorOptions {
+  /** Clock and timers to use (default: the real clock) */
+  scheduler?: Scheduler;
+}
+
+// =============================================================================
+// Stream Merging
+// =============================================================================
+
+/**
+ * Component streams by key. Object keys and map entries keep their order.
+ */
+export type KeyedStreams =
+  | Readonly<Record<string, AsyncIterable<ComponentOutput>>>
+  | ReadonlyMap<string, AsyncIterable<ComponentOutput>>;
+
+/**
+ * An output of a keyed merge, tagged with the key of its source stream.
+ */
+export interface KeyedOutput {
+  key: string;
+  output: ComponentOutput;
+}
+
+/**
+ * Options for combining the latest frames of keyed streams.
+ */
+export interface CombineStreamsOptions extends StreamOperatorOptions {
+  /** Build the parent descriptor from the latest frame per key, in source order (default: a fragment of the frames) */
+  combine?: (latest: ReadonlyMap<string, ComponentOutput>) => ComponentOutput;
+  /** Emit only once every stream has produced a frame (default: false) */
+  waitForAll?: boolean;
+}
 
 // =============================================================================
 // Render Context (splay-compatible)
@@ -23,8 +104,17 @@ export interface RenderContext<TData = unknown> {
   path: string;
   /** Depth in the render tree */
   depth: number;
-  /** Render a child component */
-  render: (data: unknown, size: Size, path: string) => ComponentOutput | Promise<ComponentOutput>;
+  /** Render a child component (without a size: the registry's defaultSize, else this size) */
+  render: {
+    (data: unknown, path: string): ComponentOutput | Promise<ComponentOutput>;
+    (data: unknown, size: Size | undefined, path: string): ComponentOutput | Promise<ComponentOutput>;
+  };
+  /** Render child components at sizes computed from a layout (default: `data.layout`) */
+  renderChildren?: (children: readonly unknown[], layout?: LayoutSpec) => Promise<ComponentOutput[]>;
+  /** Signal cancelling this render; inherited by child renders */
+  signal?: AbortSignalLike | undefined;
+  /** Trace span of this render, when tracing */
+  span?: RenderSpan | undefined;
 }
 
 // =============================================================================
@@ -55,6 +145,43 @@ export interface Registry<TOutput = ComponentOutput> {
   has(type: string): boolean;
   /** Register a renderer (throws - use client procedures instead) */
   register(type: string, renderer: ComponentRenderer<TOutput>): void;
+  /** Resolve the component type of a data node (default: `type` or `__type__`) */
+  resolveType?: TypeResolver;
+  /** Size used when a render is given none */
+  defaultSize?: Size;
+}
+
+// =============================================================================
+// Type Resolution
+// =============================================================================
+
+/**
+ * Determines the component type of a data node, or null if it has none.
+ */
+export type TypeResolver = (data: unknown) => string | null;
+
+/**
+ * Options for creating a type resolver.
+ */
+export interface TypeResolverOptions {
+  /** Discriminator keys, checked in order (default: ["type", "__type__"]) */
+  keys?: readonly string[];
+  /** Component type for each discriminator value; unmapped values are used as-is */
+  map?: Record<string, string>;
+  /** Shape predicates, checked in order when no discriminator key is present */
+  matchers?: readonly { type: string; test: (data: unknown) => boolean }[];
+  /** Component type for arrays */
+  array?: string;
+  /** Component type for strings, numbers, booleans and bigints */
+  primitive?: string;
+}
+
+/**
+ * Registry backed by client procedures.
+ */
+export interface ClientRegistry<TOutput = ComponentOutput> extends Registry<TOutput> {
+  /** Component types available in the registry's namespaces ([] without a loaded directory) */
+  types(): string[];
 }
 
 /**
@@ -67,6 +194,58 @@ export interface StreamingRegistry<TOutput = ComponentOutput> {
   has(type: string): boolean;
 }
 
+// =============================================================================
+// Component Calls & Middleware
+// =============================================================================
+
+/**
+ * Input sent to a component procedure.
+ */
+export interface ComponentInput {
+  /** Data to render */
+  data: unknown;
+  /** Available size for rendering */
+  size: Size;
+  /** Path in the render tree */
+  path: string;
+  /** Depth in the render tree */
+  depth: number;
+  /** Sequence number of the last frame received, when resuming a stream */
+  resumeToken?: number;
+}
+
+/**
+ * A component procedure call, as seen by middleware.
+ */
+export interface ComponentCall {
+  /** Component type being rendered */
+  type: string;
+  /** Procedure path for the component type */
+  path: string[];
+  /** Input for the component procedure */
+  input: ComponentInput;
+  /** Signal cancelling the call */
+  signal?: AbortSignalLike | undefined;
+}
+
+/**
+ * Middleware wrapping a sync component call.
+ * Call `next` (optionally with a rewritten call) to continue the pipeline,
+ * or return a ComponentOutput directly to short-circuit it.
+ */
+export type ComponentMiddleware = (
+  call: ComponentCall,
+  next: (call: ComponentCall) => Promise<ComponentOutput>
+) => Promise<ComponentOutput>;
+
+/**
+ * Middleware wrapping a streaming component call.
+ */
+export type StreamingComponentMiddleware = (
+  call: ComponentCall,
+  next: (call: ComponentCall) => AsyncIterable<ComponentOutput>
+) => AsyncIterable<ComponentOutput>;
+
 // =============================================================================
 // Client Registry Options
 // =============================================================================
@@ -75,20 +254,579 @@ export interface StreamingRegistry<TOutput = ComponentOutput> {
  * Options for creating a client registry.
  */
 export interface ClientRegistryOptions {
-  /** Namespace prefix for component lookups (e.g., "ui" → "components.ui.{type}") */
-  namespace?: string;
+  /**
+   * Namespace prefix for component lookups (e.g., "ui" → "components.ui.{type}").
+   * A list is a fallback chain: the first namespace whose procedure exists wins.
+   */
+  namespace?: string | readonly string[];
+  /** Check whether a procedure exists; enables namespace fallback (results are cached) */
+  hasProcedure?: (path: string[]) => boolean | Promise<boolean>;
+  /**
+   * Component listing from `splay.bridge.components`. Once loaded, has() is
+   * accurate, types() lists components, and it backs hasProcedure by default.
+   */
+  directory?: ComponentDirectory;
+  /**
+   * Version selector for types without an explicit `@version`, by type name
+   * or per render. Versioned types resolve to "components.{ns}.{type}.v{version}".
+   */
+  versions?: Record<string, string> | ((type: string, ctx: RenderContext) => string | undefined);
   /** Default size for components without explicit size */
   defaultSize?: Size;
+  /** Render cache for memoizing component outputs (see createRenderCache) */
+  cache?: RenderCache;
+  /** Coalesce calls issued in the same tick into one batch procedure call */
+  batch?: boolean | BatchOptions;
+  /** Middleware wrapping every sync component call, outermost first */
+  middleware?: ComponentMiddleware[];
+  /** Timeout for each component call attempt in milliseconds (default: none) */
+  timeoutMs?: number;
+  /** Per-type timeouts, overriding timeoutMs */
+  timeouts?: Record<string, number>;
+  /** Clock for timeouts and retry backoff (default: systemScheduler) */
+  scheduler?: Scheduler;
+  /**
+   * Output when a call times out: "stale" serves an expired cached output if
+   * one exists, otherwise both produce a timeout descriptor (default: "descriptor")
+   */
+  timeoutFallback?: "stale" | "descriptor";
+  /** Retry policy for failed component calls (default: no retries) */
+  retry?: RetryPolicy;
+  /** Per-type retry policies, overriding retry */
+  retries?: Record<string, RetryPolicy>;
+  /** Reject malformed procedure results before they reach splay (default: false) */
+  validate?: boolean;
+  /**
+   * Record call, cache and stream metrics (see createRenderMetrics). Defaults
+   * to bridgeMetrics, which `splay.bridge.metrics` reports; false disables.
+   */
+  metrics?: RenderMetrics | false;
+  /** Resolve the component type of data nodes (see createTypeResolver) */
+  resolveType?: TypeResolver;
+}
+
+/**
+ * Retry policy with exponential backoff and jitter.
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 100) */
+  initialDelayMs?: number;
+  /** Upper bound for the delay in milliseconds (default: 5000) */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each attempt (default: 2) */
+  factor?: number;
+  /** Fraction of the delay randomly removed, 0-1 (default: 0.5) */
+  jitter?: number;
+  /** Whether a failed attempt may be retried (default: every error except invalid outputs) */
+  retryable?: (error: unknown, attempt: number) => boolean;
 }
 
 /**
  * Options for creating a streaming registry.
  */
 export interface StreamingRegistryOptions extends ClientRegistryOptions {
-  /** Buffer size for streaming backpressure */
+  /** What to do with frames when the consumer falls behind (default: "latest") */
+  backpressure?: BackpressureStrategy;
+  /** Frames buffered for the consumer by the queue and drop strategies (default: 16) */
   bufferSize?: number;
+  /** Called whenever frames are dropped by backpressure */
+  onDrop?: (info: DroppedFrames) => void;
+  /** Middleware wrapping every streaming component call, outermost first */
+  streamingMiddleware?: StreamingComponentMiddleware[];
+  /**
+   * Reopen streams that fail mid-way (default: the default retry policy for
+   * streams whose frames carry `seq`, or when `resume` is set; otherwise no
+   * reconnection)
+   */
+  reconnect?: RetryPolicy;
+  /**
+   * Resume reopened streams after the last sequenced frame received
+   * (default: true; frames without `seq` pass through unchanged)
+   */
+  resume?: boolean;
+  /** Called when a stream reconnects, resumes, skips frames or restarts its numbering */
+  onStreamStatus?: (status: StreamStatus) => void;
+}
+
+/**
+ * A stream frame numbered by its procedure. Sequence numbers increase by
+ * one per frame for the life of the stream.
+ */
+export interface SequencedOutput extends ComponentOutput {
+  seq: number;
+}
+
+/**
+ * Status of a resumable stream:
+ * - "reconnecting": the stream failed and will be reopened
+ * - "resumed": a reopened stream delivered its first frame
+ * - "gap": frames `from` through `to` were skipped, e.g. because the
+ *   procedure resumed at its current state instead of replaying
+ * - "reset": the reopened stream restarted its numbering at `seq`, below
+ *   `lastSeq`, e.g. after a server restart; frames since may be missing
+ */
+export type StreamStatus =
+  | {
+      kind: "reconnecting";
+      type: string;
+      path: string;
+      attempt: number;
+      lastSeq: number | undefined;
+      error: unknown;
+    }
+  | { kind: "resumed"; type: string; path: string; lastSeq: number | undefined }
+  | { kind: "gap"; type: string; path: string; from: number; to: number; missed: number }
+  | { kind: "reset"; type: string; path: string; lastSeq: number; seq: number };
+
+/**
+ * How a stream handles frames its consumer hasn't pulled yet:
+ * - "latest": keep only the newest pending frame
+ * - "queue": buffer up to bufferSize frames, then fail the stream
+ * - "drop-oldest" / "drop-newest": buffer up to bufferSize frames, then drop
+ * - "block": stop reading the procedure stream until the consumer pulls
+ */
+export type BackpressureStrategy = "latest" | "queue" | "drop-oldest" | "drop-newest" | "block";
+
+/**
+ * Report of frames dropped by backpressure.
+ */
+export interface DroppedFrames {
+  type: string;
+  path: string;
+  /** Frames dropped by this call */
+  count: number;
+  /** Frames dropped so far by this stream */
+  total: number;
+}
+
+// =============================================================================
+// Composite Registry Options
+// =============================================================================
+
+/**
+ * Options for creating a composite registry.
+ */
+export interface CompositeRegistryOptions {
+  /** In-process renderers by component type */
+  local?: Record<string, ComponentRenderer>;
+  /** Renderers that win over every other source (tests, feature flags) */
+  overrides?: Record<string, ComponentRenderer>;
+  /** Whether local renderers resolve before or after the sources (default: "local-first") */
+  priority?: "local-first" | "local-last";
+  /** Type resolver (default: the first source's) */
+  resolveType?: TypeResolver;
+  /** Size used when a render is given none (default: the first source's) */
+  defaultSize?: Size;
+}
+
+// =============================================================================
+// Render Context Options
+// =============================================================================
+
+/**
+ * Details of a failed component render.
+ */
+export interface RenderErrorInfo {
+  /** The thrown value */
+  error: unknown;
+  /** Error message */
+  message: string;
+  /** Component type, if it could be determined from the data */
+  type: string | null;
+  /** Path of the failed render */
+  path: string;
+  /** Depth of the failed render */
+  depth: number;
+}
+
+/**
+ * Error boundary for component renders.
+ * Catches failed renders matching both `types` and `path`.
+ */
+export interface ErrorBoundary {
+  /** Component types this boundary catches (default: all types) */
+  types?: readonly string[];
+  /** Root path of the subtree this boundary catches (default: all paths) */
+  path?: string;
+  /**
+   * Replacement for a failed render (default: an `__error__` descriptor).
+   * A string renders that component type with `{ error, data }` as its data.
+   */
+  fallback?: string | ((info: RenderErrorInfo) => ComponentOutput | Promise<ComponentOutput>);
 }
 
+/**
+ * Options for render contexts and the renders they start.
+ */
+export interface RenderContextOptions {
+  /** Error boundaries, first match wins. Uncaught failures reject the render. */
+  boundaries?: readonly ErrorBoundary[];
+  /** Called for every failed render caught by a boundary */
+  onError?: (info: RenderErrorInfo) => void;
+  /** Signal cancelling the render and every child render */
+  signal?: AbortSignalLike | undefined;
+  /** Record a span per render (see createTracer) */
+  tracer?: Tracer;
+  /** Span that new render spans are created under */
+  span?: RenderSpan | undefined;
+  /** Maximum render depth (default: 100) */
+  maxDepth?: number;
+  /** On a depth or cycle violation, throw a RenderLoopError or return an `__error__` descriptor (default: "throw") */
+  onRenderLoop?: "throw" | "descriptor";
+  /** Renders above this one, outermost first; maintained by the renderers for loop detection */
+  ancestors?: readonly RenderAncestor[];
+  /** Resolve the component type of data nodes, overriding the registry's resolver */
+  resolveType?: TypeResolver;
+  /** Report a child's preferred or measured size for layout (default: `data.layoutItem`) */
+  measure?: MeasureChild;
+}
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+/**
+ * How a parent lays out its children. `padding` insets every side.
+ */
+export type LayoutSpec =
+  | {
+      kind: "stack";
+      /** Stacking direction (default: "vertical") */
+      direction?: "vertical" | "horizontal";
+      gap?: number;
+      padding?: number;
+    }
+  | {
+      kind: "flex";
+      /** Main axis (default: "row") */
+      direction?: "row" | "column";
+      gap?: number;
+      padding?: number;
+    }
+  | {
+      kind: "grid";
+      columns: number;
+      gap?: number;
+      columnGap?: number;
+      rowGap?: number;
+      /** Fixed row height (default: rows share the height) */
+      rowHeight?: number;
+      padding?: number;
+    };
+
+/**
+ * Layout hints reported by a child.
+ */
+export interface LayoutItem {
+  /** Preferred width */
+  width?: number;
+  /** Preferred height */
+  height?: number;
+  /** Flex: initial main size (default: the preferred size) */
+  basis?: number;
+  /** Flex: share of free space (default: 1 without a size hint, else 0) */
+  grow?: number;
+  /** Flex: share of overflow to give up (default: 1) */
+  shrink?: number;
+  /** Grid: number of columns spanned (default: 1) */
+  span?: number;
+}
+
+/**
+ * Reports a child's layout hints, given the size of its parent.
+ */
+export type MeasureChild = (
+  data: unknown,
+  available: Size
+) => LayoutItem | undefined | Promise<LayoutItem | undefined>;
+
+/**
+ * A render in progress above the current one.
+ */
+export interface RenderAncestor {
+  type: string;
+  path: string;
+  data: unknown;
+}
+
+// =============================================================================
+// Tracing
+// =============================================================================
+
+/**
+ * Span attribute value.
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Span status, as in OpenTelemetry.
+ */
+export interface SpanStatus {
+  code: "unset" | "ok" | "error";
+  message?: string;
+}
+
+/**
+ * Timestamped event recorded on a span.
+ */
+export interface SpanEvent {
+  name: string;
+  /** Milliseconds since the epoch */
+  time: number;
+  attributes: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * A timed operation within a trace.
+ */
+export interface RenderSpan {
+  /** 32 hex characters, shared by every span of a trace */
+  readonly traceId: string;
+  /** 16 hex characters */
+  readonly spanId: string;
+  readonly parentSpanId: string | undefined;
+  readonly name: string;
+  /** Milliseconds since the epoch */
+  readonly startTime: number;
+  /** Milliseconds since the epoch, once ended */
+  readonly endTime: number | undefined;
+  readonly attributes: Readonly<Record<string, SpanAttributeValue>>;
+  readonly events: readonly SpanEvent[];
+  readonly status: SpanStatus;
+  setAttribute(key: string, value: SpanAttributeValue): void;
+  addEvent(name: string, attributes?: Record<string, SpanAttributeValue>): void;
+  setStatus(status: SpanStatus): void;
+  /** End the span. Later calls are ignored. */
+  end(): void;
+}
+
+/**
+ * Receives finished traces.
+ */
+export interface SpanExporter {
+  /** Called with every span of a trace once all of them have ended */
+  export(spans: readonly RenderSpan[]): void | Promise<void>;
+}
+
+/**
+ * Options for creating a tracer.
+ */
+export interface TracerOptions {
+  /** Where finished traces go (default: discarded) */
+  exporter?: SpanExporter;
+}
+
+/**
+ * Creates spans and hands finished traces to an exporter.
+ */
+export interface Tracer {
+  /** Start a span, as a child of `parent` or as the root of a new trace */
+  startSpan(
+    name: string,
+    options?: { parent?: RenderSpan | undefined; attributes?: Record<string, SpanAttributeValue> }
+  ): RenderSpan;
+  /** Wait for pending exports */
+  flush(): Promise<void>;
+}
+
+// =============================================================================
+// Render Cache
+// =============================================================================
+
+/**
+ * Options for creating a render cache.
+ */
+export interface RenderCacheOptions {
+  /** Maximum number of cached outputs, least recently used evicted first (default: 500) */
+  maxEntries?: number;
+  /** Time-to-live for cached outputs in milliseconds (default: no expiry) */
+  ttlMs?: number;
+  /** Component types that are never cached */
+  exclude?: readonly string[] | ((type: string) => boolean);
+}
+
+/**
+ * Memoizes component outputs keyed on type, data and size, plus an optional
+ * scope (registries pass the resolved procedure path, so registries for
+ * different namespaces can share a cache).
+ */
+export interface RenderCache {
+  /** Whether outputs for this component type may be cached */
+  shouldCache(type: string): boolean;
+  /** Get a cached output, if present and not expired */
+  get(type: string, data: unknown, size: Size, scope?: string): ComponentOutput | undefined;
+  /** Get a cached output even if it has expired, if not yet evicted */
+  getStale(type: string, data: unknown, size: Size, scope?: string): ComponentOutput | undefined;
+  /** Store an output rendered at the given path */
+  set(
+    type: string,
+    data: unknown,
+    size: Size,
+    path: string,
+    output: ComponentOutput,
+    scope?: string
+  ): void;
+  /** Remove all outputs for a component type and its versions. Returns the number removed. */
+  invalidateType(type: string): number;
+  /** Remove all outputs rendered at or below a path. Returns the number removed. */
+  invalidatePath(prefix: string): number;
+  /** Remove all outputs */
+  clear(): void;
+  /** Number of cached outputs */
+  readonly size: number;
+}
+
+// =============================================================================
+// Render Metrics
+// =============================================================================
+
+/**
+ * Options for creating a metrics collector.
+ */
+export interface RenderMetricsOptions {
+  /** Upper bounds of the latency histogram buckets in milliseconds */
+  buckets?: readonly number[];
+  /**
+   * Maximum number of component types tracked separately; further types
+   * are recorded together as "__other__" (default: 256)
+   */
+  maxTypes?: number;
+}
+
+/**
+ * How a component call ended.
+ */
+export type CallOutcome = "ok" | "error" | "timeout";
+
+/**
+ * Cumulative latency histogram, in milliseconds.
+ */
+export interface HistogramSnapshot {
+  /** Observations at or below each bound (the +Inf bucket is `count`) */
+  buckets: { le: number; count: number }[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Metrics for one component type.
+ */
+export interface ComponentMetrics {
+  calls: number;
+  errors: number;
+  timeouts: number;
+  cacheHits: number;
+  cacheMisses: number;
+  /** Call latency */
+  latency: HistogramSnapshot;
+  streams: number;
+  streamErrors: number;
+  /** Frames emitted by streams */
+  frames: number;
+  /** Frames dropped by stream backpressure */
+  droppedFrames: number;
+  /** Time from opening a stream to its end */
+  streamDuration: HistogramSnapshot;
+}
+
+/**
+ * Point-in-time copy of all metrics.
+ */
+export interface MetricsSnapshot {
+  timestamp: string;
+  components: Record<string, ComponentMetrics>;
+}
+
+/**
+ * Collects per-type render metrics.
+ */
+export interface RenderMetrics {
+  /** Record a finished component call */
+  recordCall(type: string, durationMs: number, outcome: CallOutcome): void;
+  /** Record a render cache lookup */
+  recordCacheLookup(type: string, hit: boolean): void;
+  /** Record a frame emitted by a component stream */
+  recordFrame(type: string): void;
+  /** Record frames dropped by stream backpressure */
+  recordDrop(type: string, count: number): void;
+  /** Record a finished component stream */
+  recordStream(type: string, durationMs: number, failed: boolean): void;
+  /** Copy the current metrics */
+  snapshot(): MetricsSnapshot;
+  /** Render the current metrics in Prometheus text exposition format */
+  toPrometheus(): string;
+  /** Reset all metrics */
+  reset(): void;
+}
+
+// =============================================================================
+// Batch Options
+// =============================================================================
+
+/**
+ * Options for batching component procedure calls.
+ */
+export interface BatchOptions {
+  /** Procedure path of the batch procedure (default: ["components", "__batch__"]) */
+  path?: string[];
+  /** Maximum number of calls per batch (default: 100) */
+  maxBatchSize?: number;
+  /** Collect calls for this many milliseconds (default: 0 - calls made in the same tick) */
+  windowMs?: number;
+  /** Clock for the collection window (default: systemScheduler) */
+  scheduler?: Scheduler;
+}
+
+// =============================================================================
+// Render Tree Options
+// =============================================================================
+
+/**
+ * Options for rendering a full data tree.
+ */
+export interface RenderTreeOptions extends RenderContextOptions {
+  /** Path of the root node (default: "root") */
+  path?: string;
+  /** Maximum number of sibling renders in flight at once (default: unlimited) */
+  concurrency?: number;
+  /** Extract child data nodes from a data node and its output (default: `output.props.childData`, else `data.children`) */
+  getChildren?: (data: unknown, output: ComponentOutput | undefined) => readonly unknown[] | undefined;
+  /** Compute the size available to a child, bypassing layout (default: computed from the parent's layout, else the parent's size) */
+  childSize?: (parentSize: Size, childData: unknown, index: number) => Size;
+  /** Find a parent's layout from its data and output (default: `output.props.layout`, else `data.layout`) */
+  getLayout?: (data: unknown, output: ComponentOutput | undefined) => LayoutSpec | undefined;
+}
+
+// =============================================================================
+// Descriptor Patches
+// =============================================================================
+
+/**
+ * Location of a descriptor node: child indexes from the root ([] is the root).
+ */
+export type DescriptorPath = number[];
+
+/**
+ * A change to a descriptor tree. List operations address the parent node by
+ * `path` and the child by index; indexes refer to the tree as left by the
+ * preceding patches.
+ */
+export type DescriptorPatch =
+  | { op: "replace"; path: DescriptorPath; node: ComponentOutput }
+  | { op: "set-props"; path: DescriptorPath; set: Record<string, unknown>; remove: string[] }
+  | { op: "insert"; path: DescriptorPath; index: number; node: ComponentOutput }
+  | { op: "remove"; path: DescriptorPath; index: number }
+  | { op: "move"; path: DescriptorPath; from: number; to: number };
+
+/**
+ * A frame of a patch stream: a full tree first, then changes to it.
+ */
+export type DescriptorFrame =
+  | { kind: "snapshot"; tree: ComponentOutput }
+  | { kind: "patch"; patches: DescriptorPatch[] };
+
 // =============================================================================
 // Hydration Types
 // =============================================================================
@@ -111,4 +849,6 @@ export interface HydrateOptions<TComponent = unknown> {
   onNull?: () => TComponent | null;
   /** Handler for fragments */
   onFragment?: (children: TComponent[]) => TComponent;
+  /** Handler for error descriptors (default: `components.__error__`, else null) */
+  onError?: (props: Record<string, unknown>) => TComponent | null;
 }
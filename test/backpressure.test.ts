@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import type { BackpressureStrategy } from "../src/types.js";
+import { BufferOverflowError, withBackpressure } from "../src/backpressure.js";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const settle = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * A source producing 1..count as fast as it is read, recording how far it
+ * got and whether it was closed.
+ */
+function counter(count: number) {
+  const state = { produced: 0, closed: false };
+  const stream = (async function* () {
+    try {
+      while (state.produced < count) {
+        state.produced++;
+        yield state.produced;
+      }
+    } finally {
+      state.closed = true;
+    }
+  })();
+  return { stream, state };
+}
+
+/**
+ * Read one value, let the source run ahead, then read the rest.
+ */
+async function readSlowly(
+  strategy: BackpressureStrategy,
+  bufferSize = 3
+): Promise<{ values: number[]; dropped: number }> {
+  const { stream } = counter(10);
+  let dropped = 0;
+  const iterator = withBackpressure(stream, {
+    strategy,
+    bufferSize,
+    onDrop: (count) => (dropped += count),
+  })[Symbol.asyncIterator]();
+
+  const values: number[] = [];
+  const first = await iterator.next();
+  values.push(first.value as number);
+  await settle();
+
+  for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+    values.push(result.value);
+  }
+  return { values, dropped };
+}
+
+// =============================================================================
+// Strategies
+// =============================================================================
+
+describe("withBackpressure", () => {
+  it("passes every frame to a consumer that keeps up", async () => {
+    for (const strategy of ["latest", "queue", "drop-oldest", "drop-newest", "block"] as const) {
+      const { stream } = counter(5);
+      const values: number[] = [];
+      for await (const value of withBackpressure(stream, { strategy })) {
+        values.push(value);
+      }
+      expect(values, strategy).toEqual([1, 2, 3, 4, 5]);
+    }
+  });
+
+  it("latest keeps only the newest pending frame", async () => {
+    const { values, dropped } = await readSlowly("latest");
+
+    expect(values[0]).toBe(1);
+    expect(values.at(-1)).toBe(10);
+    expect(values.length + dropped).toBe(10);
+    expect(values.length).toBeLessThanOrEqual(3);
+  });
+
+  it("drop-oldest keeps the newest bufferSize frames", async () => {
+    const { values, dropped } = await readSlowly("drop-oldest");
+
+    expect(values.slice(-3)).toEqual([8, 9, 10]);
+    expect(values.length + dropped).toBe(10);
+  });
+
+  it("drop-newest keeps the oldest bufferSize frames", async () => {
+    const { values, dropped } = await readSlowly("drop-newest");
+
+    expect(values.slice(0, 4)).toEqual([1, 2, 3, 4]);
+    expect(values.at(-1)).not.toBe(10);
+    expect(values.length + dropped).toBe(10);
+  });
+
+  it("block stops reading the source until the consumer pulls", async () => {
+    const { stream, state } = counter(10);
+    const iterator = withBackpressure(stream, { strategy: "block", bufferSize: 3 })[
+      Symbol.asyncIterator
+    ]();
+
+    await iterator.next();
+    await settle();
+    expect(state.produced).toBeLessThanOrEqual(1 + 3 + 1);
+
+    const rest: number[] = [];
+    for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+      rest.push(result.value);
+    }
+    expect(rest).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it("queue fails with BufferOverflowError and closes the source", async () => {
+    const { stream, state } = counter(100);
+    const iterator = withBackpressure(stream, { strategy: "queue", bufferSize: 3 })[
+      Symbol.asyncIterator
+    ]();
+
+    await iterator.next();
+    await settle();
+
+    const error = await (async () => {
+      try {
+        for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+          // Drain what was buffered before the overflow
+        }
+        return undefined;
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(BufferOverflowError);
+    expect((error as BufferOverflowError).bufferSize).toBe(3);
+    await settle();
+    expect(state.closed).toBe(true);
+    expect(state.produced).toBeLessThan(100);
+  });
+
+  it("closes the source when the consumer returns early", async () => {
+    const { stream, state } = counter(100);
+
+    for await (const value of withBackpressure(stream, { strategy: "drop-oldest" })) {
+      if (value === 2) {
+        break;
+      }
+    }
+    await settle();
+
+    expect(state.closed).toBe(true);
+  });
+});
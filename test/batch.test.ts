@@ -0,0 +1,256 @@
+import { describe, expect, it } from "vitest";
+import type { ProcedureCaller } from "../src/registry.js";
+import type { BatchItemResult, BatchRequest } from "../src/batch.js";
+import { createBatchHandler, createBatchingCaller } from "../src/batch.js";
+import { createVirtualScheduler } from "../src/scheduler.js";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface RecordedCall {
+  path: string;
+  input: unknown;
+}
+
+/**
+ * A caller that records its calls and answers with `respond`.
+ */
+function recordingCaller(respond: (path: string[], input: unknown) => unknown): {
+  call: ProcedureCaller;
+  calls: RecordedCall[];
+} {
+  const calls: RecordedCall[] = [];
+  const call = (async (path: string[], input: unknown) => {
+    calls.push({ path: path.join("."), input });
+    return respond(path, input);
+  }) as ProcedureCaller;
+  return { call, calls };
+}
+
+/**
+ * Answer batch requests by echoing each item's input, and other calls directly.
+ */
+function echo(path: string[], input: unknown): unknown {
+  if (path.join(".") === "components.__batch__") {
+    return (input as BatchRequest).items.map(
+      (item): BatchItemResult => ({ ok: true, output: item.input })
+    );
+  }
+  return input;
+}
+
+// =============================================================================
+// Batching Caller
+// =============================================================================
+
+describe("createBatchingCaller", () => {
+  it("sends calls made in the same tick as one batch and fans the results out", async () => {
+    const { call, calls } = recordingCaller(echo);
+    const batched = createBatchingCaller(call);
+
+    const results = await Promise.all([
+      batched(["components", "a"], 1),
+      batched(["components", "b"], 2),
+      batched(["components", "c"], 3),
+    ]);
+
+    expect(results).toEqual([1, 2, 3]);
+    expect(calls).toEqual([
+      {
+        path: "components.__batch__",
+        input: {
+          items: [
+            { path: ["components", "a"], input: 1 },
+            { path: ["components", "b"], input: 2 },
+            { path: ["components", "c"], input: 3 },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("sends a single call directly", async () => {
+    const { call, calls } = recordingCaller(echo);
+    const batched = createBatchingCaller(call);
+
+    await expect(batched(["components", "a"], 1)).resolves.toBe(1);
+    expect(calls).toEqual([{ path: "components.a", input: 1 }]);
+  });
+
+  it("splits windows larger than maxBatchSize", async () => {
+    const { call, calls } = recordingCaller(echo);
+    const batched = createBatchingCaller(call, { maxBatchSize: 2 });
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map((n) => batched(["components", "a"], n)));
+
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(calls.map((recorded) => recorded.path)).toEqual([
+      "components.__batch__",
+      "components.__batch__",
+      "components.a",
+    ]);
+  });
+
+  it("rejects only the caller of a failed item", async () => {
+    const { call } = recordingCaller((): BatchItemResult[] => [
+      { ok: true, output: "fine" },
+      { ok: false, error: { message: "broken" } },
+    ]);
+    const batched = createBatchingCaller(call);
+
+    const [ok, failed] = await Promise.allSettled([
+      batched(["components", "a"], {}),
+      batched(["components", "b"], {}),
+    ]);
+
+    expect(ok).toEqual({ status: "fulfilled", value: "fine" });
+    expect(failed).toMatchObject({ status: "rejected", reason: { message: "broken" } });
+  });
+
+  it("rejects every call when the batch call fails", async () => {
+    const { call } = recordingCaller(() => {
+      throw new Error("offline");
+    });
+    const batched = createBatchingCaller(call);
+
+    const settled = await Promise.allSettled([
+      batched(["components", "a"], {}),
+      batched(["components", "b"], {}),
+    ]);
+
+    expect(settled).toMatchObject([
+      { status: "rejected", reason: { message: "offline" } },
+      { status: "rejected", reason: { message: "offline" } },
+    ]);
+  });
+
+  it.each([
+    ["an object", { results: [] }],
+    ["too few results", [{ ok: true, output: 1 }]],
+  ])("rejects every call on a response with %s", async (_label, response) => {
+    const { call } = recordingCaller(() => response);
+    const batched = createBatchingCaller(call);
+
+    const settled = await Promise.allSettled([
+      batched(["components", "a"], {}),
+      batched(["components", "b"], {}),
+    ]);
+
+    for (const result of settled) {
+      expect(result).toMatchObject({
+        status: "rejected",
+        reason: { message: expect.stringContaining("Invalid batch response") },
+      });
+    }
+  });
+
+  it("drops a call aborted before the flush from the batch", async () => {
+    const { call, calls } = recordingCaller(echo);
+    const batched = createBatchingCaller(call);
+    const controller = new AbortController();
+
+    const aborted = batched(["components", "a"], 1, { signal: controller.signal });
+    const kept = batched(["components", "b"], 2);
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow();
+    await expect(kept).resolves.toBe(2);
+    expect(calls).toEqual([{ path: "components.b", input: 2 }]);
+  });
+
+  it("collects calls for windowMs on the given scheduler", async () => {
+    const scheduler = createVirtualScheduler();
+    const { call, calls } = recordingCaller(echo);
+    const batched = createBatchingCaller(call, { windowMs: 50, scheduler });
+
+    const first = batched(["components", "a"], 1);
+    await scheduler.advance(49);
+    const second = batched(["components", "b"], 2);
+    expect(calls).toEqual([]);
+
+    await scheduler.advance(1);
+    await expect(Promise.all([first, second])).resolves.toEqual([1, 2]);
+    expect(calls.map((recorded) => recorded.path)).toEqual(["components.__batch__"]);
+  });
+});
+
+// =============================================================================
+// Batch Handler
+// =============================================================================
+
+describe("createBatchHandler", () => {
+  it("reports each item's result separately", async () => {
+    const { call } = recordingCaller((path, input) => {
+      if (path[1] === "broken") {
+        throw new Error("render failed");
+      }
+      return input;
+    });
+    const handler = createBatchHandler(call);
+
+    const results = await handler({
+      items: [
+        { path: ["components", "a"], input: 1 },
+        { path: ["components", "broken"], input: 2 },
+      ],
+    });
+
+    expect(results).toEqual([
+      { ok: true, output: 1 },
+      { ok: false, error: { message: "render failed" } },
+    ]);
+  });
+
+  it("refuses items outside the batch procedure's namespace, and the batch procedure", async () => {
+    const { call, calls } = recordingCaller(echo);
+    const handler = createBatchHandler(call);
+
+    const results = await handler({
+      items: [
+        { path: ["splay", "bridge", "info"], input: {} },
+        { path: ["components", "__batch__"], input: { items: [] } },
+      ],
+    });
+
+    expect(results).toEqual([
+      { ok: false, error: { message: "Cannot batch a call to splay.bridge.info" } },
+      { ok: false, error: { message: "Cannot batch a call to components.__batch__" } },
+    ]);
+    expect(calls).toEqual([]);
+  });
+
+  it("rejects batches over maxBatchSize", async () => {
+    const { call } = recordingCaller(echo);
+    const handler = createBatchHandler(call, { maxBatchSize: 1 });
+
+    await expect(
+      handler({
+        items: [
+          { path: ["components", "a"], input: 1 },
+          { path: ["components", "b"], input: 2 },
+        ],
+      })
+    ).rejects.toThrow("Batch of 2 calls exceeds the maximum of 1");
+  });
+
+  it("serves the batching caller", async () => {
+    const { call: server } = recordingCaller((path, input) => ({ path: path.join("."), input }));
+    const handler = createBatchHandler(server);
+    const transport = (async (path: string[], input: unknown) =>
+      path.join(".") === "components.__batch__"
+        ? handler(input as BatchRequest)
+        : server(path, input)) as ProcedureCaller;
+    const batched = createBatchingCaller(transport);
+
+    const results = await Promise.all([
+      batched(["components", "ui", "card"], { id: 1 }),
+      batched(["components", "ui", "badge"], { id: 2 }),
+    ]);
+
+    expect(results).toEqual([
+      { path: "components.ui.card", input: { id: 1 } },
+      { path: "components.ui.badge", input: { id: 2 } },
+    ]);
+  });
+});
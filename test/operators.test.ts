@@ -0,0 +1,374 @@
+import { describe, expect, it } from "vitest";
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type { VirtualScheduler } from "../src/scheduler.js";
+import {
+  bufferTime,
+  catchError,
+  debounceStream,
+  distinctUntilChanged,
+  filterStream,
+  mapStream,
+  sampleStream,
+  scanStream,
+  startWith,
+  takeUntil,
+  throttleStream,
+} from "../src/operators.js";
+import { createVirtualScheduler } from "../src/scheduler.js";
+import { sleep } from "../src/resilience.js";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function out(name: string): ComponentOutput {
+  return { type: "frame", props: { name } };
+}
+
+async function* fromArray<T>(values: T[]): AsyncIterable<T> {
+  yield* values;
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of stream) {
+    values.push(value);
+  }
+  return values;
+}
+
+/**
+ * A source emitting each value at its time on the scheduler, ending at `endAt`.
+ */
+async function* timed<T>(
+  scheduler: VirtualScheduler,
+  events: [at: number, value: T][],
+  endAt: number
+): AsyncIterable<T> {
+  for (const [at, value] of events) {
+    await sleep(at - scheduler.now(), undefined, scheduler);
+    yield value;
+  }
+  await sleep(endAt - scheduler.now(), undefined, scheduler);
+}
+
+/**
+ * Run a stream to completion on the scheduler, recording when each value
+ * arrived.
+ */
+async function run<T>(
+  scheduler: VirtualScheduler,
+  stream: AsyncIterable<T>
+): Promise<[number, T][]> {
+  const received: [number, T][] = [];
+  const done = (async () => {
+    for await (const value of stream) {
+      received.push([scheduler.now(), value]);
+    }
+  })();
+  await scheduler.runAll();
+  await done;
+  return received;
+}
+
+/**
+ * A source that yields its values, then waits forever, and records whether
+ * it was closed. (An async generator can't be closed while it waits.)
+ */
+function closable<T>(values: T[]): { stream: AsyncIterable<T>; closed: () => boolean } {
+  let closed = false;
+  let index = 0;
+  const iterator: AsyncIterator<T> = {
+    next: () =>
+      index < values.length
+        ? Promise.resolve({ done: false, value: values[index++]! })
+        : new Promise(() => {}),
+    return: async () => {
+      closed = true;
+      return { done: true, value: undefined };
+    },
+  };
+  return { stream: { [Symbol.asyncIterator]: () => iterator }, closed: () => closed };
+}
+
+// =============================================================================
+// Transform Operators
+// =============================================================================
+
+describe("transform operators", () => {
+  it("maps, filters and scans with indexes", async () => {
+    const numbers = () => fromArray([1, 2, 3, 4]);
+
+    expect(await collect(mapStream(numbers(), (n, index) => n * 10 + index))).toEqual([
+      10, 21, 32, 43,
+    ]);
+    expect(await collect(filterStream(numbers(), async (n) => n % 2 === 0))).toEqual([2, 4]);
+    expect(await collect(scanStream(numbers(), (sum, n) => sum + n, 0))).toEqual([1, 3, 6, 10]);
+  });
+
+  it("drops consecutive outputs equal by content", async () => {
+    const frames = [out("a"), out("a"), out("b"), out("a")];
+
+    expect(await collect(distinctUntilChanged(fromArray(frames)))).toEqual([
+      out("a"),
+      out("b"),
+      out("a"),
+    ]);
+  });
+
+  it("emits an initial value first", async () => {
+    expect(await collect(startWith(fromArray([out("b")]), out("a")))).toEqual([
+      out("a"),
+      out("b"),
+    ]);
+  });
+});
+
+// =============================================================================
+// Error and Completion Operators
+// =============================================================================
+
+describe("catchError", () => {
+  it("continues with the handler's output after a stream error", async () => {
+    const failing = (async function* () {
+      yield out("a");
+      throw new Error("lost");
+    })();
+
+    const frames = await collect(
+      catchError(failing, (error) => out(`error: ${(error as Error).message}`))
+    );
+
+    expect(frames).toEqual([out("a"), out("error: lost")]);
+  });
+
+  it("continues with a replacement stream", async () => {
+    const failing = (async function* () {
+      throw new Error("lost");
+    })();
+
+    expect(await collect(catchError(failing, () => fromArray([out("b"), out("c")])))).toEqual([
+      out("b"),
+      out("c"),
+    ]);
+  });
+
+  it("does not catch errors thrown in by the consumer", async () => {
+    let handled = false;
+    const iterator = catchError(fromArray([out("a"), out("b")]), () => {
+      handled = true;
+      return out("fallback");
+    })[Symbol.asyncIterator]();
+
+    await iterator.next();
+    await expect(iterator.throw!(new Error("consumer"))).rejects.toThrow("consumer");
+    expect(handled).toBe(false);
+  });
+});
+
+describe("takeUntil", () => {
+  it("ends the stream and closes it when the notifier settles", async () => {
+    const source = closable([out("a")]);
+    let stop = () => {};
+    const notifier = new Promise<void>((resolve) => (stop = resolve));
+
+    const frames: ComponentOutput[] = [];
+    const done = (async () => {
+      for await (const frame of takeUntil(source.stream, notifier)) {
+        frames.push(frame);
+        stop();
+      }
+    })();
+
+    await done;
+    expect(frames).toEqual([out("a")]);
+    expect(source.closed()).toBe(true);
+  });
+
+  it("ends on the first value of an iterable notifier and closes it", async () => {
+    const scheduler = createVirtualScheduler();
+    let notifierClosed = false;
+    const stopAt200 = (async function* () {
+      try {
+        await sleep(200, undefined, scheduler);
+        yield;
+        await new Promise(() => {});
+      } finally {
+        notifierClosed = true;
+      }
+    })();
+    const source = timed(
+      scheduler,
+      [
+        [0, 1],
+        [100, 2],
+        [300, 3],
+      ],
+      400
+    );
+
+    const received = await run(scheduler, takeUntil(source, stopAt200));
+
+    expect(received).toEqual([
+      [0, 1],
+      [100, 2],
+    ]);
+    expect(notifierClosed).toBe(true);
+  });
+
+  it("ends and closes the stream on abort, while it waits for a value", async () => {
+    const source = closable([out("a")]);
+    const controller = new AbortController();
+
+    const reading = collect(
+      takeUntil(source.stream, new Promise(() => {}), { signal: controller.signal })
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    expect(await reading).toEqual([out("a")]);
+    expect(source.closed()).toBe(true);
+  });
+
+  it("ends without reading further when the notifier already settled", async () => {
+    const source = closable([out("a")]);
+
+    expect(await collect(takeUntil(source.stream, Promise.resolve()))).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Time Operators
+// =============================================================================
+
+describe("time operators", () => {
+  it("throttleStream emits at most once per interval, then the last output", async () => {
+    const scheduler = createVirtualScheduler();
+    const source = timed(
+      scheduler,
+      [
+        [0, out("a")],
+        [10, out("b")],
+        [20, out("c")],
+        [120, out("d")],
+        [130, out("e")],
+      ],
+      130
+    );
+
+    expect(await run(scheduler, throttleStream(source, 100, { scheduler }))).toEqual([
+      [0, out("a")],
+      [120, out("d")],
+      [130, out("e")],
+    ]);
+  });
+
+  it("debounceStream emits after a quiet period, and the pending output at the end", async () => {
+    const scheduler = createVirtualScheduler();
+    const source = timed(
+      scheduler,
+      [
+        [0, out("a")],
+        [50, out("b")],
+        [200, out("c")],
+      ],
+      210
+    );
+
+    expect(await run(scheduler, debounceStream(source, 100, { scheduler }))).toEqual([
+      [150, out("b")],
+      [210, out("c")],
+    ]);
+  });
+
+  it("debounceStream drops the pending output when aborted", async () => {
+    const scheduler = createVirtualScheduler();
+    const controller = new AbortController();
+    const source = timed(scheduler, [[0, out("a")]], 1000);
+    scheduler.setTimeout(() => controller.abort(), 50);
+
+    const received = await run(
+      scheduler,
+      debounceStream(source, 100, { scheduler, signal: controller.signal })
+    );
+
+    expect(received).toEqual([]);
+  });
+
+  it("sampleStream emits the latest new output once per interval", async () => {
+    const scheduler = createVirtualScheduler();
+    const source = timed(
+      scheduler,
+      [
+        [0, "a"],
+        [30, "b"],
+        [130, "c"],
+        [140, "d"],
+      ],
+      250
+    );
+
+    expect(await run(scheduler, sampleStream(source, 100, { scheduler }))).toEqual([
+      [100, "b"],
+      [200, "d"],
+    ]);
+  });
+
+  it("bufferTime emits each window's outputs and skips empty windows", async () => {
+    const scheduler = createVirtualScheduler();
+    const source = timed(
+      scheduler,
+      [
+        [0, "a"],
+        [30, "b"],
+        [250, "c"],
+        [260, "d"],
+      ],
+      270
+    );
+
+    expect(await run(scheduler, bufferTime(source, 100, { scheduler }))).toEqual([
+      [100, ["a", "b"]],
+      [270, ["c", "d"]],
+    ]);
+  });
+
+  it("interval operators keep a fixed schedule", async () => {
+    const scheduler = createVirtualScheduler();
+    const events: [number, number][] = Array.from({ length: 10 }, (_, index) => [
+      index * 100 + 50,
+      index,
+    ]);
+    const source = timed(scheduler, events, 1000);
+
+    const received = await run(scheduler, sampleStream(source, 100, { scheduler }));
+
+    expect(received.map(([at]) => at)).toEqual([
+      100, 200, 300, 400, 500, 600, 700, 800, 900, 1000,
+    ]);
+  });
+
+  it("release their timers when the consumer stops early", async () => {
+    const scheduler = createVirtualScheduler();
+    const source = timed(
+      scheduler,
+      [
+        [0, "a"],
+        [150, "b"],
+      ],
+      10_000
+    );
+
+    const first = (async () => {
+      for await (const values of bufferTime(source, 100, { scheduler })) {
+        return values;
+      }
+      return undefined;
+    })();
+    await scheduler.advance(100);
+
+    expect(await first).toEqual(["a"]);
+    // Only the source's own pending sleep is left
+    expect(scheduler.pending).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type { DescriptorFrame } from "../src/types.js";
+import { applyPatch, diffDescriptor, diffStream, patchStream } from "../src/patch.js";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function node(
+  type: string,
+  props: Record<string, unknown> = {},
+  children?: ComponentOutput[],
+  key?: string
+): ComponentOutput {
+  return {
+    type,
+    props,
+    ...(children ? { children } : {}),
+    ...(key !== undefined ? { key } : {}),
+  } as ComponentOutput;
+}
+
+function row(key: string, price = 1): ComponentOutput {
+  return node("row", { price }, undefined, key);
+}
+
+function list(children: ComponentOutput[]): ComponentOutput {
+  return node("list", {}, children);
+}
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32), so failures reproduce.
+ */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+async function* fromArray<T>(values: T[]): AsyncIterable<T> {
+  yield* values;
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of stream) {
+    values.push(value);
+  }
+  return values;
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+describe("diffDescriptor", () => {
+  it("returns no patches for equal trees", () => {
+    const tree = list([row("a", 1), row("b", 2)]);
+    const copy = list([row("a", 1), row("b", 2)]);
+
+    expect(diffDescriptor(tree, copy)).toEqual([]);
+  });
+
+  it("compares prop values by content", () => {
+    const prev = node("chart", { series: [{ x: 1, y: 2 }], style: { color: "red" } });
+    const next = node("chart", { series: [{ x: 1, y: 2 }], style: { color: "red" } });
+
+    expect(diffDescriptor(prev, next)).toEqual([]);
+    expect(diffDescriptor(prev, node("chart", { series: [{ x: 1, y: 3 }], style: {} }))).toEqual([
+      { op: "set-props", path: [], set: { series: [{ x: 1, y: 3 }], style: {} }, remove: [] },
+    ]);
+  });
+
+  it("sets changed props and removes missing ones", () => {
+    expect(diffDescriptor(node("row", { a: 1, b: 2 }), node("row", { a: 1, c: 3 }))).toEqual([
+      { op: "set-props", path: [], set: { c: 3 }, remove: ["b"] },
+    ]);
+  });
+
+  it("replaces nodes whose type or key changes", () => {
+    const next = node("card");
+    expect(diffDescriptor(node("row"), next)).toEqual([{ op: "replace", path: [], node: next }]);
+    expect(diffDescriptor(row("a"), row("b"))).toEqual([
+      { op: "replace", path: [], node: row("b") },
+    ]);
+  });
+
+  it("moves keyed children instead of replacing them", () => {
+    const patches = diffDescriptor(
+      list([row("a"), row("b"), row("c")]),
+      list([row("c"), row("a"), row("b")])
+    );
+
+    expect(patches.map((patch) => patch.op)).toEqual(["move"]);
+  });
+
+  it("addresses nested nodes by child index", () => {
+    const prev = list([row("a"), list([row("x", 1)])]);
+    const next = list([row("a"), list([row("x", 2)])]);
+
+    expect(diffDescriptor(prev, next)).toEqual([
+      { op: "set-props", path: [1, 0], set: { price: 2 }, remove: [] },
+    ]);
+  });
+});
+
+// =============================================================================
+// Round Trips
+// =============================================================================
+
+describe("applyPatch", () => {
+  it("turns the previous tree into the next one", () => {
+    const prev = list([row("a", 1), row("b", 2), node("note", { text: "hi" }), row("c", 3)]);
+    const next = list([row("c", 4), node("note", { text: "bye" }), row("a", 1), row("d", 5)]);
+
+    expect(applyPatch(prev, diffDescriptor(prev, next))).toEqual(next);
+  });
+
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])("round-trips random keyed list edits (seed %i)", (seed) => {
+    const next = random(seed);
+    const keys = "abcdefghij".split("");
+    let prev = list(keys.slice(0, 5).map((key) => row(key)));
+
+    for (let step = 0; step < 25; step++) {
+      // Shuffle, drop and add rows, and change some prices
+      const rows = keys
+        .filter(() => next() < 0.6)
+        .map((key) => row(key, Math.floor(next() * 3)))
+        .sort(() => next() - 0.5);
+      const tree = list(rows);
+
+      expect(applyPatch(prev, diffDescriptor(prev, tree))).toEqual(tree);
+      prev = tree;
+    }
+  });
+
+  it("round-trips unkeyed and repeated-key children", () => {
+    const prev = list([node("a"), row("x", 1), node("b"), row("x", 2)]);
+    const next = list([row("x", 2), node("b", { bold: true }), row("x", 3)]);
+
+    expect(applyPatch(prev, diffDescriptor(prev, next))).toEqual(next);
+  });
+
+  it("does not modify the input tree and shares unchanged subtrees", () => {
+    const unchanged = list([row("x")]);
+    const prev = list([row("a", 1), unchanged]);
+    const before = structuredClone(prev);
+
+    const patched = applyPatch(prev, diffDescriptor(prev, list([row("a", 2), unchanged])));
+
+    expect(prev).toEqual(before);
+    expect(patched.children?.[1]).toBe(unchanged);
+  });
+
+  it("rejects patches addressing nodes that don't exist", () => {
+    expect(() =>
+      applyPatch(list([]), [{ op: "set-props", path: [3], set: {}, remove: [] }])
+    ).toThrow("Invalid patch path [3]");
+    expect(() => applyPatch(list([]), [{ op: "remove", path: [], index: 0 }])).toThrow(
+      "index 0 is out of range"
+    );
+  });
+});
+
+// =============================================================================
+// Patch Streams
+// =============================================================================
+
+describe("diffStream / patchStream", () => {
+  it("sends a snapshot, then only frames that change something", async () => {
+    const trees = [list([row("a", 1)]), list([row("a", 1)]), list([row("a", 2)])];
+
+    const frames = await collect(diffStream(fromArray(trees)));
+
+    expect(frames).toEqual([
+      { kind: "snapshot", tree: trees[0] },
+      { kind: "patch", patches: [{ op: "set-props", path: [0], set: { price: 2 }, remove: [] }] },
+    ]);
+  });
+
+  it("rebuilds every distinct tree on the other side", async () => {
+    const trees = [
+      list([row("a", 1), row("b", 1)]),
+      list([row("b", 1), row("a", 1)]),
+      list([row("b", 2)]),
+      node("empty"),
+      list([row("c", 1)]),
+    ];
+
+    // Serialize frames as a transport would
+    const frames = (await collect(diffStream(fromArray(trees)))).map(
+      (frame) => JSON.parse(JSON.stringify(frame)) as DescriptorFrame
+    );
+
+    expect(await collect(patchStream(fromArray(frames)))).toEqual(trees);
+  });
+
+  it("rejects a patch frame before any snapshot", async () => {
+    const frames: DescriptorFrame[] = [{ kind: "patch", patches: [] }];
+
+    await expect(collect(patchStream(fromArray(frames)))).rejects.toThrow(
+      "Received a patch frame before a snapshot"
+    );
+  });
+});
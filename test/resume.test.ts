@@ -0,0 +1,325 @@
+import { describe, expect, it } from "vitest";
+import type { ComponentOutput } from "@mark1russell7/client/components";
+import type { StreamStatus } from "../src/types.js";
+import type { StreamingProcedureCaller } from "../src/streaming.js";
+import { createFrameLog, resumeStream } from "../src/resume.js";
+import { createStreamingRegistry } from "../src/streaming.js";
+import { createRenderContext } from "../src/registry.js";
+import { createLocalRegistry } from "../src/composite.js";
+import { createVirtualScheduler } from "../src/scheduler.js";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function tick(price: number): ComponentOutput {
+  return { type: "ticker", props: { price } };
+}
+
+function sequenced(seq: number, price = seq): ComponentOutput {
+  return { ...tick(price), seq } as ComponentOutput;
+}
+
+async function take<T>(stream: AsyncIterable<T>, count: number): Promise<T[]> {
+  const values: T[] = [];
+  if (count <= 0) {
+    return values;
+  }
+  for await (const value of stream) {
+    values.push(value);
+    if (values.length === count) {
+      break;
+    }
+  }
+  return values;
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of stream) {
+    values.push(value);
+  }
+  return values;
+}
+
+/**
+ * A procedure that serves one scripted connection per open: its frames,
+ * then an error unless it is the last connection.
+ */
+function scripted(connections: ComponentOutput[][]) {
+  const tokens: (number | undefined)[] = [];
+  const open = (resumeToken: number | undefined): AsyncIterable<ComponentOutput> => {
+    const index = tokens.length;
+    tokens.push(resumeToken);
+    return (async function* () {
+      yield* connections[index] ?? [];
+      if (index < connections.length - 1) {
+        throw new Error("connection lost");
+      }
+    })();
+  };
+  return { open, tokens };
+}
+
+const fastRetry = { maxAttempts: 5, initialDelayMs: 0, jitter: 0 };
+
+function resume(open: (resumeToken: number | undefined) => AsyncIterable<ComponentOutput>) {
+  const statuses: StreamStatus[] = [];
+  const stream = resumeStream(open, fastRetry, {
+    type: "ticker",
+    path: "root",
+    onStatus: (status) => statuses.push(status),
+  });
+  return { stream, statuses };
+}
+
+// =============================================================================
+// Frame Log
+// =============================================================================
+
+describe("createFrameLog", () => {
+  it("numbers frames from 1", () => {
+    const log = createFrameLog();
+
+    expect(log.append(tick(10))).toEqual({ ...tick(10), seq: 1 });
+    expect(log.append(tick(11)).seq).toBe(2);
+    expect(log.latest?.seq).toBe(2);
+  });
+
+  it("replays retained frames after a resume token", async () => {
+    const log = createFrameLog();
+    [1, 2, 3, 4].forEach((price) => log.append(tick(price)));
+    log.close();
+
+    const frames = await collect(log.read(2));
+
+    expect(frames.map((frame) => frame.seq)).toEqual([3, 4]);
+  });
+
+  it("starts at the latest frame without a token, or with one it no longer retains", async () => {
+    const log = createFrameLog({ capacity: 2 });
+    [1, 2, 3, 4, 5].forEach((price) => log.append(tick(price)));
+    log.close();
+
+    expect((await collect(log.read())).map((frame) => frame.seq)).toEqual([5]);
+    expect((await collect(log.read(1))).map((frame) => frame.seq)).toEqual([5]);
+    expect((await collect(log.read(42))).map((frame) => frame.seq)).toEqual([5]);
+  });
+
+  it("delivers new frames to waiting readers", async () => {
+    const log = createFrameLog();
+    log.append(tick(1));
+
+    const reading = take(log.read(), 3);
+    log.append(tick(2));
+    await Promise.resolve();
+    log.append(tick(3));
+
+    expect((await reading).map((frame) => frame.seq)).toEqual([1, 2, 3]);
+  });
+
+  it("ends readers on abort", async () => {
+    const log = createFrameLog();
+    const controller = new AbortController();
+
+    const reading = collect(log.read(undefined, { signal: controller.signal }));
+    controller.abort();
+
+    await expect(reading).resolves.toEqual([]);
+  });
+});
+
+// =============================================================================
+// Resume Stream
+// =============================================================================
+
+describe("resumeStream", () => {
+  it("reopens after the last frame received and drops replayed frames", async () => {
+    const { open, tokens } = scripted([
+      [sequenced(1), sequenced(2)],
+      [sequenced(2), sequenced(3)],
+    ]);
+    const { stream, statuses } = resume(open);
+
+    const frames = await collect(stream);
+
+    expect(frames).toEqual([tick(1), tick(2), tick(3)]);
+    expect(tokens).toEqual([undefined, 2]);
+    expect(statuses.map((status) => status.kind)).toEqual(["reconnecting", "resumed"]);
+  });
+
+  it("reports frames skipped on resume as a gap", async () => {
+    const { open } = scripted([[sequenced(1), sequenced(2)], [sequenced(6)]]);
+    const { stream, statuses } = resume(open);
+
+    expect(await collect(stream)).toEqual([tick(1), tick(2), tick(6)]);
+    expect(statuses).toContainEqual({
+      kind: "gap",
+      type: "ticker",
+      path: "root",
+      from: 3,
+      to: 5,
+      missed: 3,
+    });
+  });
+
+  it("follows a stream that restarted its numbering", async () => {
+    const { open } = scripted([
+      [sequenced(7), sequenced(8)],
+      [sequenced(1, 100), sequenced(2, 101)],
+    ]);
+    const { stream, statuses } = resume(open);
+
+    expect(await collect(stream)).toEqual([tick(7), tick(8), tick(100), tick(101)]);
+    expect(statuses).toContainEqual({
+      kind: "reset",
+      type: "ticker",
+      path: "root",
+      lastSeq: 8,
+      seq: 1,
+    });
+  });
+
+  it("passes frames without seq through", async () => {
+    const { open, tokens } = scripted([[tick(1)], [tick(2)]]);
+    const { stream } = resume(open);
+
+    expect(await collect(stream)).toEqual([tick(1), tick(2)]);
+    expect(tokens).toEqual([undefined, undefined]);
+  });
+
+  it("gives up after maxAttempts failures in a row", async () => {
+    const { open, tokens } = scripted([[], [], [], [], [], [], []]);
+    const { stream } = resume(open);
+
+    await expect(collect(stream)).rejects.toThrow("connection lost");
+    expect(tokens).toHaveLength(fastRetry.maxAttempts);
+  });
+
+  it("with sequencedOnly, only reopens streams that delivered a sequenced frame", async () => {
+    const plain = scripted([[tick(1)], [tick(2)]]);
+    const numbered = scripted([[sequenced(1)], [sequenced(2)]]);
+    const options = { type: "ticker", path: "root", sequencedOnly: true };
+
+    await expect(collect(resumeStream(plain.open, fastRetry, options))).rejects.toThrow(
+      "connection lost"
+    );
+    await expect(collect(resumeStream(numbered.open, fastRetry, options))).resolves.toEqual([
+      tick(1),
+      tick(2),
+    ]);
+  });
+
+  it("does not reopen on errors thrown in by the consumer", async () => {
+    const { open, tokens } = scripted([[sequenced(1), sequenced(2)], [sequenced(3)]]);
+    const { stream } = resume(open);
+
+    await stream.next();
+    await expect(stream.throw(new Error("consumer failed"))).rejects.toThrow("consumer failed");
+    expect(tokens).toEqual([undefined]);
+  });
+
+  it("waits for the backoff on the given scheduler", async () => {
+    const scheduler = createVirtualScheduler();
+    const { open, tokens } = scripted([[sequenced(1)], [sequenced(2)]]);
+    const stream = resumeStream(
+      open,
+      { initialDelayMs: 1000, jitter: 0 },
+      { type: "ticker", path: "root", scheduler }
+    );
+
+    const frames = collect(stream);
+    await scheduler.advance(999);
+    expect(tokens).toEqual([undefined]);
+
+    await scheduler.advance(1);
+    expect(await frames).toEqual([tick(1), tick(2)]);
+    expect(tokens).toEqual([undefined, 1]);
+  });
+
+  it("round-trips through a frame log across a reconnect", async () => {
+    const log = createFrameLog();
+    [1, 2, 3].forEach((price) => log.append(tick(price)));
+
+    const tokens: (number | undefined)[] = [];
+    const open = (resumeToken: number | undefined): AsyncIterable<ComponentOutput> => {
+      tokens.push(resumeToken);
+      const source = log.read(resumeToken);
+      if (tokens.length > 1) {
+        return source;
+      }
+      // The first connection drops after one frame, while the log moves on
+      return (async function* () {
+        for await (const frame of source) {
+          yield frame;
+          log.append(tick(4));
+          log.append(tick(5));
+          throw new Error("connection lost");
+        }
+      })();
+    };
+
+    const { stream, statuses } = resume(open);
+
+    // The first read starts at the latest frame, the second replays what was missed
+    expect(await take(stream, 3)).toEqual([tick(3), tick(4), tick(5)]);
+    expect(tokens).toEqual([undefined, 3]);
+    expect(statuses.some((status) => status.kind === "gap")).toBe(false);
+  });
+});
+
+// =============================================================================
+// Streaming Registry
+// =============================================================================
+
+describe("createStreamingRegistry resume", () => {
+  /**
+   * A streaming caller whose procedure fails after each connection's first
+   * frame until `connections` have been opened.
+   */
+  function flaky(connections: number, numbered: boolean) {
+    const tokens: unknown[] = [];
+    const stream = ((_path: string[], input: unknown) => {
+      const { resumeToken } = input as { resumeToken?: number };
+      tokens.push(resumeToken);
+      const count = tokens.length;
+      return (async function* () {
+        yield numbered ? sequenced(count) : tick(count);
+        if (count < connections) {
+          throw new Error("connection lost");
+        }
+      })();
+    }) as StreamingProcedureCaller;
+    return { stream, tokens };
+  }
+
+  async function render(stream: StreamingProcedureCaller, options = {}) {
+    const registry = createStreamingRegistry(stream, options);
+    const ctx = createRenderContext(createLocalRegistry(), {}, { width: 1, height: 1 }, "root");
+    return collect(registry.get("ticker")!(ctx));
+  }
+
+  it("resumes sequenced streams by default", async () => {
+    const { stream, tokens } = flaky(2, true);
+
+    expect(await render(stream)).toEqual([tick(1), tick(2)]);
+    expect(tokens).toEqual([undefined, 1]);
+  });
+
+  it("doesn't reconnect streams without seq unless asked to", async () => {
+    const { stream, tokens } = flaky(2, false);
+
+    await expect(render(stream)).rejects.toThrow("connection lost");
+    expect(tokens).toEqual([undefined]);
+
+    const retried = flaky(2, false);
+    expect(await render(retried.stream, { reconnect: fastRetry })).toEqual([tick(1), tick(2)]);
+  });
+
+  it("doesn't resume with resume: false", async () => {
+    const { stream, tokens } = flaky(2, true);
+
+    await expect(render(stream, { resume: false })).rejects.toThrow("connection lost");
+    expect(tokens).toEqual([undefined]);
+  });
+});